@@ -0,0 +1,57 @@
+import { Logger } from './utils/logger';
+
+export interface BatcherOptions {
+  maxSize: number;
+  maxDelayMs: number;
+}
+
+/**
+ * Buffers items and hands them to `flush` in one go, either once
+ * `maxSize` items are waiting or `maxDelayMs` after the first one arrived.
+ */
+export class Batcher<T> {
+  private options: BatcherOptions;
+  private onFlush: (items: T[]) => Promise<void>;
+  private logger: Logger;
+  private items: T[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(options: BatcherOptions, onFlush: (items: T[]) => Promise<void>, instanceId: string) {
+    this.options = options;
+    this.onFlush = onFlush;
+    this.logger = new Logger('BATCHER', instanceId);
+  }
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  add(item: T) {
+    this.items.push(item);
+
+    if (this.items.length >= this.options.maxSize) {
+      this.flushInBackground();
+    } else if (!this.timer) {
+      this.timer = setTimeout(() => this.flushInBackground(), this.options.maxDelayMs);
+    }
+  }
+
+  async flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (this.items.length === 0) return;
+
+    const items = this.items;
+    this.items = [];
+    await this.onFlush(items);
+  }
+
+  private flushInBackground() {
+    this.flush().catch((error: unknown) => {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.logger.error(`Failed to flush batch: ${errorMessage}`);
+    });
+  }
+}
@@ -33,11 +33,4 @@ const config: SlaveConfig = {
 // Start the slave
 const slave = new UptimeSlave(config);
 
-// Handle graceful shutdown
-const cleanup = () => {
-  console.log('\n👋 Shutting down slave...');
-  process.exit(0);
-};
-
-process.on('SIGINT', cleanup);
-process.on('SIGTERM', cleanup);
+// Graceful shutdown (SIGINT/SIGTERM) is handled by index.ts, which drains the running slave
@@ -0,0 +1,155 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ResultHistory } from './history';
+import { IpFamily, MonitoringResult } from './types';
+import { configureLogging } from './utils/logger';
+
+let workDir: string;
+
+function createHistory(maxResultsPerService = 100) {
+  return new ResultHistory({
+    filePath: join(workDir, 'history.json'),
+    maxResultsPerService,
+    saveDebounceMs: 60000
+  }, 'test');
+}
+
+async function reload(maxResultsPerService = 100) {
+  const history = createHistory(maxResultsPerService);
+  await history.initialize();
+  return history;
+}
+
+const logLines = () => readFileSync(join(workDir, 'history.json'), 'utf-8').split('\n').filter(Boolean);
+
+function result(timestamp: number, success: boolean, addressFamily?: IpFamily, serviceId = 'svc'): MonitoringResult {
+  return {
+    serviceId,
+    timestamp,
+    success,
+    status: success ? 'up' : 'down',
+    duration: 10,
+    error: success ? null : `failure at ${timestamp}`,
+    errorCode: success ? null : 'TIMEOUT',
+    addressFamily
+  };
+}
+
+beforeAll(() => {
+  configureLogging({ file: false, level: 'error' });
+});
+
+beforeEach(() => {
+  workDir = mkdtempSync(join(tmpdir(), 'history-test-'));
+});
+
+afterEach(() => {
+  rmSync(workDir, { recursive: true, force: true });
+});
+
+describe('ResultHistory', () => {
+  test('keeps failures without a family in the downtime of a single-stack service', () => {
+    const history = createHistory();
+    // An auto service resolves to either family; failed checks may not know which
+    history.add(result(1, true, 'ipv4'));
+    history.add(result(2, false));
+    history.add(result(3, false));
+    history.add(result(4, true, 'ipv6'));
+
+    expect(history.downtime('svc', 0, 10, false)).toEqual([
+      { start: 2, end: 4, duration: 2, failedChecks: 2, error: 'failure at 2' }
+    ]);
+    const stats = history.uptime('svc', 0, 10, false);
+    expect(stats.uptimePercentage).toBe(50);
+    expect(stats.families).toBeUndefined();
+  });
+
+  test('tracks each family of a dual-stack service on its own', () => {
+    const history = createHistory();
+    for (let timestamp = 1; timestamp <= 4; timestamp++) {
+      history.add(result(timestamp, true, 'ipv4'));
+      history.add(result(timestamp, timestamp === 4, 'ipv6'));
+    }
+
+    expect(history.downtime('svc', 0, 10, true)).toEqual([
+      { start: 1, end: 4, duration: 3, failedChecks: 3, error: 'failure at 1', family: 'ipv6' }
+    ]);
+    expect(history.downtime('svc', 0, 10, true, 'ipv4')).toEqual([]);
+
+    const stats = history.uptime('svc', 0, 10, true);
+    expect(stats.uptimePercentage).toBe(62.5);
+    expect(stats.families?.ipv4?.uptimePercentage).toBe(100);
+    expect(stats.families?.ipv6?.uptimePercentage).toBe(25);
+    expect(history.recent('svc', 2, 'ipv6').map(entry => entry.timestamp)).toEqual([4, 3]);
+  });
+
+  test('only counts results inside the range', () => {
+    const history = createHistory();
+    history.add(result(1, false));
+    history.add(result(5, true));
+    history.add(result(9, false));
+
+    const stats = history.uptime('svc', 2, 8, false);
+    expect(stats.checks).toBe(1);
+    expect(stats.uptimePercentage).toBe(100);
+    expect(history.uptime('svc', 20, 30, false).uptimePercentage).toBeNull();
+  });
+
+  test('drops the oldest results beyond the limit', () => {
+    const history = createHistory(2);
+    [1, 2, 3].forEach(timestamp => history.add(result(timestamp, true)));
+
+    expect(history.recent('svc', 10).map(entry => entry.timestamp)).toEqual([3, 2]);
+  });
+});
+
+describe('ResultHistory persistence', () => {
+  test('appends results and restores them on reload', async () => {
+    const history = await reload();
+    history.add(result(1, true, undefined, 'a'));
+    await history.flush();
+    history.add(result(2, false, undefined, 'a'));
+    history.add(result(3, true, undefined, 'b'));
+    await history.flush();
+
+    expect(logLines()).toHaveLength(3);
+    const restored = await reload();
+    expect(restored.recent('a', 10).map(entry => entry.timestamp)).toEqual([2, 1]);
+    expect(restored.recent('b', 10).map(entry => entry.timestamp)).toEqual([3]);
+  });
+
+  test('persists removed services', async () => {
+    const history = await reload();
+    history.add(result(1, true, undefined, 'a'));
+    history.add(result(2, true, undefined, 'b'));
+    history.remove('a');
+    await history.flush();
+
+    const restored = await reload();
+    expect(restored.has('a')).toBe(false);
+    expect(restored.has('b')).toBe(true);
+  });
+
+  test('compacts the log on load down to the kept results', async () => {
+    const history = await reload(2);
+    [1, 2, 3, 4].forEach(timestamp => history.add(result(timestamp, true)));
+    history.add(result(5, true, undefined, 'gone'));
+    history.remove('gone');
+    await history.flush();
+    expect(logLines()).toHaveLength(6);
+
+    const restored = await reload(2);
+    expect(restored.recent('svc', 10).map(entry => entry.timestamp)).toEqual([4, 3]);
+    expect(logLines()).toHaveLength(2);
+  });
+
+  test('reads the single-object format and skips a torn last line', async () => {
+    writeFileSync(join(workDir, 'history.json'), JSON.stringify({ a: [result(1, true, undefined, 'a')] }));
+    expect((await reload()).recent('a', 10)).toHaveLength(1);
+
+    writeFileSync(join(workDir, 'history.json'), `${JSON.stringify({ add: result(1, true) })}\n{"add":{"serv`);
+    expect((await reload()).recent('svc', 10)).toHaveLength(1);
+  });
+});
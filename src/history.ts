@@ -0,0 +1,302 @@
+import { readFile, mkdir } from 'fs/promises';
+import { existsSync } from 'fs';
+import { dirname } from 'path';
+import { Logger } from './utils/logger';
+import { AtomicFile } from './utils/atomic';
+import { IpFamily, MonitoringResult, ResultDowntimePeriod, UptimeStats } from './types';
+
+export interface ResultHistoryOptions {
+  filePath: string;
+  maxResultsPerService: number;
+  saveDebounceMs: number;
+}
+
+// Compact once the log holds this many lines and at least twice the results kept
+const COMPACT_MIN_LINES = 10000;
+
+// One line of the on-disk log: a result was recorded, or a service's history dropped
+type HistoryRecord = { add: MonitoringResult } | { remove: string };
+
+function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null;
+  // Nearest-rank method
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.max(0, rank - 1)];
+}
+
+const IP_FAMILIES: IpFamily[] = ['ipv4', 'ipv6'];
+
+// Files from before the log format hold one JSON object of results per service
+function parseLegacy(content: string): Record<string, MonitoringResult[]> | null {
+  try {
+    const stored: unknown = JSON.parse(content);
+    if (typeof stored !== 'object' || stored === null || Array.isArray(stored)) return null;
+    return Object.values(stored).every(Array.isArray) ? stored as Record<string, MonitoringResult[]> : null;
+  } catch {
+    return null;
+  }
+}
+
+function uptimeStats(results: MonitoringResult[], from: number, to: number): UptimeStats {
+  const successful = results.filter(result => result.success);
+  const durations = successful.map(result => result.duration).sort((a, b) => a - b);
+
+  return {
+    from,
+    to,
+    checks: results.length,
+    successful: successful.length,
+    degraded: results.filter(result => result.status === 'degraded').length,
+    uptimePercentage: results.length > 0 ? (successful.length / results.length) * 100 : null,
+    latency: {
+      p50: percentile(durations, 50),
+      p95: percentile(durations, 95),
+      p99: percentile(durations, 99)
+    }
+  };
+}
+
+/**
+ * Runs of consecutive failures. A period ends at the first successful
+ * result after it; periods still failing at the end have no end.
+ */
+function downtimePeriods(results: MonitoringResult[]): ResultDowntimePeriod[] {
+  const periods: ResultDowntimePeriod[] = [];
+  let current: ResultDowntimePeriod | null = null;
+
+  for (const result of results) {
+    if (!result.success && !current) {
+      current = { start: result.timestamp, end: null, duration: null, failedChecks: 0, error: result.error };
+      periods.push(current);
+    }
+    if (!result.success && current) {
+      current.failedChecks++;
+    }
+    if (result.success && current) {
+      current.end = result.timestamp;
+      current.duration = current.end - current.start;
+      current = null;
+    }
+  }
+
+  return periods;
+}
+
+/**
+ * Bounded per-service history of this slave's own results, persisted
+ * so it survives restarts. Oldest results are dropped once a service
+ * exceeds `maxResultsPerService`. New results are appended to a
+ * JSON-lines log in debounced batches; the log is rewritten with only
+ * the kept results once it has grown well past them.
+ */
+export class ResultHistory {
+  private options: ResultHistoryOptions;
+  private logger: Logger;
+  private results: Map<string, MonitoringResult[]> = new Map();
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+  private pending: HistoryRecord[] = [];
+  private logLines = 0;
+  private file: AtomicFile;
+
+  constructor(options: ResultHistoryOptions, instanceId: string) {
+    this.options = options;
+    this.file = new AtomicFile(options.filePath);
+    this.logger = new Logger('HISTORY', instanceId);
+  }
+
+  async initialize(): Promise<void> {
+    await mkdir(dirname(this.options.filePath), { recursive: true });
+    if (!existsSync(this.options.filePath)) return;
+
+    try {
+      this.results = this.parse(await readFile(this.options.filePath, 'utf-8'));
+      this.logger.info(`📚 Loaded result history for ${this.results.size} services`);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.logger.error(`Failed to read result history, starting empty: ${errorMessage}`);
+    }
+    await this.compact();
+  }
+
+  has(serviceId: string): boolean {
+    return this.results.has(serviceId);
+  }
+
+  add(result: MonitoringResult) {
+    const results = this.results.get(result.serviceId) || [];
+    results.push(result);
+    if (results.length > this.options.maxResultsPerService) {
+      results.splice(0, results.length - this.options.maxResultsPerService);
+    }
+    this.results.set(result.serviceId, results);
+    this.record({ add: result });
+  }
+
+  remove(serviceId: string) {
+    if (this.results.delete(serviceId)) {
+      this.record({ remove: serviceId });
+    }
+  }
+
+  /**
+   * Drops the history of every service not in `serviceIds`,
+   * e.g. services unassigned while the slave was down.
+   */
+  retain(serviceIds: Set<string>) {
+    for (const serviceId of Array.from(this.results.keys())) {
+      if (!serviceIds.has(serviceId)) {
+        this.remove(serviceId);
+      }
+    }
+  }
+
+  /**
+   * Newest first, optionally only the results of one address family.
+   */
+  recent(serviceId: string, limit: number, family?: IpFamily): MonitoringResult[] {
+    const results = (this.results.get(serviceId) || []).filter(result => !family || result.addressFamily === family);
+    return results.slice(-limit).reverse();
+  }
+
+  /**
+   * Stats over one address family, or over all results. A service
+   * checked over both families (`dualStack`) is also broken down per
+   * family.
+   */
+  uptime(serviceId: string, from: number, to: number, dualStack: boolean, family?: IpFamily): UptimeStats {
+    const results = this.range(serviceId, from, to, family);
+    const stats = uptimeStats(results, from, to);
+    if (dualStack && !family) {
+      stats.families = Object.fromEntries(IP_FAMILIES.map(resultFamily => [
+        resultFamily,
+        uptimeStats(results.filter(result => result.addressFamily === resultFamily), from, to)
+      ]));
+    }
+    return stats;
+  }
+
+  /**
+   * Downtime periods over one address family, or over all results. The
+   * families of a service checked over both (`dualStack`) fail and
+   * recover on their own, so their periods are derived separately and
+   * tagged.
+   */
+  downtime(serviceId: string, from: number, to: number, dualStack: boolean, family?: IpFamily): ResultDowntimePeriod[] {
+    const results = this.range(serviceId, from, to, family);
+    if (!dualStack || family) {
+      return downtimePeriods(results);
+    }
+
+    return IP_FAMILIES
+      .flatMap(resultFamily => downtimePeriods(results.filter(result => result.addressFamily === resultFamily))
+        .map(period => ({ ...period, family: resultFamily })))
+      .sort((a, b) => a.start - b.start);
+  }
+
+  /**
+   * Writes any pending changes immediately, e.g. on shutdown.
+   */
+  async flush(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+      await this.persist();
+    }
+    await this.file.idle();
+  }
+
+  private range(serviceId: string, from: number, to: number, family?: IpFamily): MonitoringResult[] {
+    return (this.results.get(serviceId) || []).filter(result =>
+      result.timestamp >= from && result.timestamp <= to && (!family || result.addressFamily === family)
+    );
+  }
+
+  /**
+   * Rebuilds the history from the log. A torn last line from a crash is
+   * skipped.
+   */
+  private parse(content: string): Map<string, MonitoringResult[]> {
+    const results = new Map<string, MonitoringResult[]>();
+    const legacy = parseLegacy(content);
+    if (legacy) {
+      for (const [serviceId, stored] of Object.entries(legacy)) {
+        results.set(serviceId, stored.slice(-this.options.maxResultsPerService));
+      }
+      return results;
+    }
+
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        const record: HistoryRecord = JSON.parse(line);
+        if ('add' in record) {
+          const stored = results.get(record.add.serviceId) || [];
+          stored.push(record.add);
+          if (stored.length > this.options.maxResultsPerService) {
+            stored.shift();
+          }
+          results.set(record.add.serviceId, stored);
+        } else {
+          results.delete(record.remove);
+        }
+      } catch {
+        this.logger.warn('Skipping unreadable result history line');
+      }
+    }
+    return results;
+  }
+
+  private record(record: HistoryRecord) {
+    this.pending.push(record);
+    this.scheduleSave();
+  }
+
+  private scheduleSave() {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.persist();
+    }, this.options.saveDebounceMs);
+  }
+
+  private async persist(): Promise<void> {
+    const records = this.pending;
+    this.pending = [];
+    if (records.length === 0) return;
+
+    this.logLines += records.length;
+    if (this.logLines >= COMPACT_MIN_LINES && this.logLines >= this.resultCount() * 2) {
+      await this.compact();
+      return;
+    }
+    try {
+      await this.file.append(records.map(record => `${JSON.stringify(record)}\n`).join(''));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.logger.error(`Failed to persist result history: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Rewrites the log with only the results currently kept.
+   */
+  private async compact(): Promise<void> {
+    this.logLines = this.resultCount();
+    try {
+      await this.file.write(() => Array.from(this.results.values())
+        .flatMap(results => results.map(result => `${JSON.stringify({ add: result })}\n`))
+        .join(''));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.logger.error(`Failed to compact result history: ${errorMessage}`);
+    }
+  }
+
+  private resultCount(): number {
+    let count = 0;
+    this.results.forEach(results => {
+      count += results.length;
+    });
+    return count;
+  }
+}
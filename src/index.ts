@@ -1,27 +1,173 @@
 import { Elysia } from 'elysia';
 import { cors } from '@elysiajs/cors';
 import { swagger } from '@elysiajs/swagger';
-import { t } from 'elysia';
 import { UptimeMonitor } from './monitor';
-import { SlaveConfig, MonitoringResult, ServiceConfig } from './types';
-import { Logger } from './utils/logger';
-import cron from 'node-cron';
+import {
+  SlaveConfig,
+  MonitoringResult,
+  ServiceConfig,
+  ReportPayload,
+  LogFields,
+  HeartbeatPayload,
+  HeartbeatResponse,
+  AssignedServiceConfig,
+  SyncStatus,
+  ServiceState,
+  CheckStatus
+} from './types';
+import { Logger, configureLogging, isLogLevel } from './utils/logger';
+import { Outbox, PermanentDeliveryError } from './outbox';
+import { Batcher } from './batcher';
+import { Scheduler } from './scheduler';
+import { MetricsRegistry } from './metrics';
+import { redactServiceConfig } from './utils/redact';
+import { isIpAllowed, safeEqual, verifySignature, ReplayCache, SignatureRejection } from './utils/auth';
+import {
+  serviceSchema,
+  serviceUpdateSchema,
+  servicePatchSchema,
+  resultsQuerySchema,
+  timeRangeQuerySchema,
+  validateServiceConfig,
+  pickServiceConfig,
+  ServiceBody
+} from './schemas';
+import { ResultHistory } from './history';
+import { stableStringify } from './utils/json';
+import { resolveRetryPolicy, isRetryBackoff, isFailureCategory } from './utils/retry';
+import { failureCategory } from './utils/errors';
+import { detectIcmpMethod } from './utils/ping';
+import { join } from 'path';
+import { gzipSync } from 'zlib';
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
+
+const MUTATING_METHODS = new Set(['POST', 'PUT', 'PATCH', 'DELETE']);
+
+function readVersion(): string {
+  try {
+    return JSON.parse(readFileSync(join(import.meta.dir, '..', 'package.json'), 'utf-8')).version;
+  } catch {
+    return 'unknown';
+  }
+}
+
+const SLAVE_VERSION = readVersion();
+const INITIAL_SYNC_RETRY_MS = 1000;
+const DEFAULT_HISTORY_RANGE_MS = 24 * 60 * 60 * 1000;
+// A master that accepts connections but never answers must not hold up sync, heartbeats or reports
+const MASTER_REQUEST_TIMEOUT_MS = 10000;
+// Bad request, payload too large, unprocessable
+const PAYLOAD_REJECTED_STATUSES = new Set([400, 413, 422]);
+
+const SIGNATURE_REJECTION_MESSAGES: Record<SignatureRejection, string> = {
+  'timestamp outside tolerance': 'Request timestamp outside tolerance',
+  'invalid signature': 'Invalid request signature',
+  'replayed request': 'Replayed request'
+};
+
+/**
+ * Resolves to the promise's outcome, or to undefined once `ms` has passed.
+ */
+function withDeadline<T>(promise: Promise<T>, ms: number): Promise<T | undefined> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const deadline = new Promise<undefined>(resolve => {
+    timer = setTimeout(() => resolve(undefined), Math.max(0, ms));
+  });
+  return Promise.race([promise, deadline]).finally(() => clearTimeout(timer));
+}
+
+// Which confirmed status wins when address families disagree
+const STATUS_SEVERITY: Record<CheckStatus, number> = {
+  unknown: 0,
+  up: 1,
+  degraded: 2,
+  down: 3
+};
+
+function describeState(state: ServiceState) {
+  return {
+    lastResult: state.lastResult,
+    lastSuccessAt: state.lastSuccessAt,
+    lastFailureAt: state.lastFailureAt,
+    confirmedStatus: state.confirmedStatus,
+    flapping: state.flapping
+  };
+}
+
+function latest(a: number | null, b: number | null): number | null {
+  if (a === null) return b;
+  if (b === null) return a;
+  return Math.max(a, b);
+}
 
 export class UptimeSlave {
   private monitor: UptimeMonitor;
   private config: SlaveConfig;
   private app: Elysia;
-  private tasks: Map<string, cron.ScheduledTask> = new Map();
+  private scheduler: Scheduler;
   private logger: Logger;
+  private outbox: Outbox<ReportPayload>;
+  private batcher: Batcher<ReportPayload> | null = null;
+  private batchSupported = true;
+  // Report deliveries started by checks, awaited on shutdown
+  private deliveries: Set<Promise<void>> = new Set();
+  private history: ResultHistory;
+  private replayCache: ReplayCache;
+  private rawBodies: WeakMap<Request, Promise<string>> = new WeakMap();
+  private metrics: MetricsRegistry;
+  private lastHeartbeatAt: number | null = null;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private stopping: Promise<void> | null = null;
+  private syncing: Promise<void> | null = null;
+  private syncTimer: ReturnType<typeof setTimeout> | null = null;
+  private syncFailures = 0;
+  private syncStatus: SyncStatus = {
+    lastAttemptAt: null,
+    lastSuccessAt: null,
+    result: null,
+    error: null,
+    added: 0,
+    updated: 0,
+    removed: 0,
+    nextSyncAt: null
+  };
+  private lastCpuUsage = process.cpuUsage();
+  private lastCpuSampleAt = Date.now();
 
   constructor(config: SlaveConfig) {
     this.config = config;
+    configureLogging(config.logging);
     this.monitor = new UptimeMonitor({
       maxConcurrent: config.maxConcurrentChecks || 50,
       timeout: config.checkTimeout || 30000,
-      retryAttempts: config.retryAttempts || 3
+      retry: resolveRetryPolicy({ attempts: config.retryAttempts }, config.retry)
     });
     this.logger = new Logger('SLAVE', config.id);
+    this.replayCache = new ReplayCache(config.auth?.signatureToleranceMs || 300000);
+    this.metrics = new MetricsRegistry({ slave_id: config.id });
+    this.registerMetrics();
+    this.scheduler = new Scheduler({
+      maxConcurrent: config.maxConcurrentChecks || 50
+    }, config.id);
+    this.outbox = new Outbox<ReportPayload>({
+      filePath: config.outbox?.path || join(process.cwd(), 'data', `outbox-${config.id}.json`),
+      maxSize: config.outbox?.maxSize || 10000,
+      dropPolicy: config.outbox?.dropPolicy || 'drop-oldest',
+      initialBackoffMs: config.outbox?.initialBackoffMs || 1000,
+      maxBackoffMs: config.outbox?.maxBackoffMs || 300000
+    }, report => this.deliverReport(report), config.id);
+    this.history = new ResultHistory({
+      filePath: config.history?.path || join(process.cwd(), 'data', `history-${config.id}.json`),
+      maxResultsPerService: config.history?.maxResultsPerService || 1000,
+      saveDebounceMs: 5000
+    }, config.id);
+    if (config.reporting?.mode === 'batch') {
+      this.batcher = new Batcher<ReportPayload>({
+        maxSize: config.reporting.batchSize || 50,
+        maxDelayMs: config.reporting.maxDelayMs || 5000
+      }, reports => this.sendReports(reports), config.id);
+    }
     this.app = new Elysia()
       .use(swagger({
         documentation: {
@@ -32,76 +178,207 @@ export class UptimeSlave {
           },
           tags: [
             { name: 'health', description: 'Health check endpoints' },
-            { name: 'services', description: 'Service management endpoints' }
+            { name: 'metrics', description: 'Prometheus metrics' },
+            { name: 'services', description: 'Service management endpoints' },
+            { name: 'history', description: 'Local result history and statistics' },
+            { name: 'sync', description: 'Reconciliation with the master' }
           ]
         }
       }))
       .use(cors())
-      .get('/health', () => ({ status: 'ok' }), {
+      .get('/health', ({ set }) => {
+        if (this.stopping) {
+          // Lets load balancers and orchestrators stop routing to this slave
+          set.status = 503;
+        }
+        return {
+          status: this.stopping ? 'draining' : 'ok',
+          pendingReports: this.outbox.size,
+          supportedTypes: this.monitor.getSupportedTypes(),
+          icmpMethod: this.monitor.getIcmpMethod()
+        };
+      }, {
         detail: {
           tags: ['health'],
           description: 'Health check endpoint'
         }
       })
-      .post('/service', async ({ body }) => {
-        // Validate service configuration based on type
-        if (body.type === 'http' && !body.url) {
-          throw new Error('URL is required for HTTP services');
-        }
-        if (body.type === 'icmp' && !body.host) {
-          throw new Error('Host is required for ICMP services');
-        }
-        return this.addService(body as ServiceConfig);
+      .get('/metrics', ({ set }) => {
+        set.headers['content-type'] = 'text/plain; version=0.0.4; charset=utf-8';
+        return this.renderMetrics();
       }, {
-        body: t.Object({
-          id: t.String(),
-          name: t.String(),
-          type: t.Union([t.Literal('http'), t.Literal('icmp')]),
-          interval: t.Number(),
-          timeout: t.Number(),
-          url: t.Optional(t.String()),
-          host: t.Optional(t.String())
-        }),
         detail: {
-          tags: ['services'],
-          description: 'Add a new service to monitor'
+          tags: ['metrics'],
+          description: 'Prometheus metrics for this slave'
         }
       })
-      .delete('/service/:id', async ({ params }) => {
-        return this.removeService(params.id);
-      }, {
-        detail: {
-          tags: ['services'],
-          description: 'Remove a service from monitoring'
+      .onRequest(({ request }) => {
+        // Signatures cover the raw body, which is gone once Elysia has parsed it
+        if (this.config.auth?.requireSignature && MUTATING_METHODS.has(request.method)) {
+          this.rawBodies.set(request, request.clone().text());
         }
-      });
+      })
+      .guard({
+        // Transform runs before body validation, so unauthorized callers never see schema errors
+        transform: async ({ request, server, status }) => {
+          const denial = await this.authorize(request, server?.requestIP(request)?.address);
+          if (denial) {
+            throw status(denial.code, { status: 'error', message: denial.message });
+          }
+          if (this.stopping && MUTATING_METHODS.has(request.method)) {
+            throw status(503, { status: 'error', message: 'Slave is shutting down' });
+          }
+        }
+      }, app => app
+        .get('/services', () => this.monitor.getServices().map(service => this.describeService(service)), {
+          detail: {
+            tags: ['services'],
+            description: 'List monitored services with their latest results'
+          }
+        })
+        .get('/service/:id', ({ params, set }) => {
+          const service = this.monitor.getService(params.id);
+          if (!service) {
+            set.status = 404;
+            return { status: 'error', message: `Service ${params.id} not found` };
+          }
+          return this.describeService(service);
+        }, {
+          detail: {
+            tags: ['services'],
+            description: 'Get a monitored service with its latest result'
+          }
+        })
+        .get('/service/:id/results', ({ params, query, set }) => {
+          if (!this.hasHistory(params.id)) {
+            set.status = 404;
+            return { status: 'error', message: `Service ${params.id} not found` };
+          }
+          if (query.family && !this.isDualStack(params.id)) {
+            set.status = 400;
+            return { status: 'error', message: `Service ${params.id} is not checked over both address families` };
+          }
+          return this.history.recent(params.id, query.limit || 100, query.family);
+        }, {
+          query: resultsQuerySchema,
+          detail: {
+            tags: ['history'],
+            description: 'Most recent local results of a service, newest first, optionally of one address family for dual-stack checks'
+          }
+        })
+        .get('/service/:id/stats', ({ params, query, set }) => {
+          if (!this.hasHistory(params.id)) {
+            set.status = 404;
+            return { status: 'error', message: `Service ${params.id} not found` };
+          }
+          if (query.family && !this.isDualStack(params.id)) {
+            set.status = 400;
+            return { status: 'error', message: `Service ${params.id} is not checked over both address families` };
+          }
+          const { from, to } = this.historyRange(query);
+          return this.history.uptime(params.id, from, to, this.isDualStack(params.id), query.family);
+        }, {
+          query: timeRangeQuerySchema,
+          detail: {
+            tags: ['history'],
+            description: 'Uptime and latency percentiles of a service over a time range, split per address family for dual-stack checks'
+          }
+        })
+        .get('/service/:id/downtime', ({ params, query, set }) => {
+          if (!this.hasHistory(params.id)) {
+            set.status = 404;
+            return { status: 'error', message: `Service ${params.id} not found` };
+          }
+          if (query.family && !this.isDualStack(params.id)) {
+            set.status = 400;
+            return { status: 'error', message: `Service ${params.id} is not checked over both address families` };
+          }
+          const { from, to } = this.historyRange(query);
+          return this.history.downtime(params.id, from, to, this.isDualStack(params.id), query.family);
+        }, {
+          query: timeRangeQuerySchema,
+          detail: {
+            tags: ['history'],
+            description: 'Downtime periods of a service derived from local results, tracked per address family for dual-stack checks'
+          }
+        })
+        .post('/service', async ({ body, set }) => {
+          if (this.monitor.getService(body.id)) {
+            set.status = 409;
+            return { status: 'error', message: `Service ${body.id} already exists` };
+          }
+          const error = this.validateService(body);
+          if (error) {
+            set.status = 400;
+            return { status: 'error', message: error };
+          }
+          return this.addService(body as ServiceConfig);
+        }, {
+          body: serviceSchema,
+          detail: {
+            tags: ['services'],
+            description: 'Add a new service to monitor'
+          }
+        })
+        .put('/service/:id', ({ params, body, set }) => {
+          return this.handleServiceUpdate({ ...body, id: params.id }, set);
+        }, {
+          body: serviceUpdateSchema,
+          detail: {
+            tags: ['services'],
+            description: 'Replace a monitored service and reschedule it'
+          }
+        })
+        .patch('/service/:id', ({ params, body, set }) => {
+          const existing = this.monitor.getService(params.id);
+          if (!existing) {
+            set.status = 404;
+            return { status: 'error', message: `Service ${params.id} not found` };
+          }
+          return this.handleServiceUpdate({ ...existing, ...body, id: params.id } as ServiceBody, set);
+        }, {
+          body: servicePatchSchema,
+          detail: {
+            tags: ['services'],
+            description: 'Update fields of a monitored service and reschedule it'
+          }
+        })
+        .delete('/service/:id', async ({ params }) => {
+          return this.removeService(params.id);
+        }, {
+          detail: {
+            tags: ['services'],
+            description: 'Remove a service from monitoring'
+          }
+        })
+        .get('/sync', () => this.syncStatus, {
+          detail: {
+            tags: ['sync'],
+            description: 'Last reconciliation with the master'
+          }
+        })
+        .post('/sync', async ({ set }) => {
+          await this.runSync();
+          if (this.syncStatus.result === 'error') {
+            set.status = 502;
+          }
+          return this.syncStatus;
+        }, {
+          detail: {
+            tags: ['sync'],
+            description: 'Reconcile assigned services with the master now'
+          }
+        }));
   }
 
   async start(port: number) {
-    // Initialize services by fetching from master
-    this.log(`🔄 Fetching services from master...`);
-    try {
-      const response = await fetch(`${this.config.masterUrl}/services`, {
-        headers: {
-          'Authorization': `Bearer ${this.config.apiKey}`
-        }
-      });
+    await this.outbox.initialize();
+    await this.history.initialize();
+    await this.detectCapabilities();
 
-      if (!response.ok) {
-        throw new Error(`Failed to fetch services: ${response.statusText}`);
-      }
-
-      const services = await response.json();
-      for (const service of services) {
-        if (service.assignedSlaves.includes(this.config.id)) {
-          await this.addService(service);
-        }
-      }
-      this.log(`✅ Initialized ${this.monitor.getServices().length} services`);
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      this.logError(`Failed to initialize services: ${errorMessage}`);
-    }
+    // Initialize services by fetching from master, then keep reconciling
+    this.log(`🔄 Fetching services from master...`);
+    await this.runSync();
 
     // Start the server
     this.app.listen(port);
@@ -109,117 +386,672 @@ export class UptimeSlave {
     this.log(`📚 Swagger documentation available at http://localhost:${port}/swagger`);
 
     // Start heartbeat
-    setInterval(() => this.sendHeartbeat(), 30000);
+    this.heartbeatTimer = setInterval(() => {
+      this.sendHeartbeat().catch(() => {
+        // Already logged and counted by sendHeartbeat
+      });
+    }, this.config.heartbeatIntervalMs || 30000);
     this.sendHeartbeat().catch((error: unknown) => {
       const errorMessage = error instanceof Error ? error.message : String(error);
       this.logError(`Failed to send initial heartbeat: ${errorMessage}`);
     });
   }
 
+  /**
+   * Drains the slave: stops scheduling, waits for running checks, flushes
+   * pending reports and sends a final heartbeat so the master knows it left.
+   * Anything still undelivered at the deadline stays in the outbox file.
+   */
+  stop(): Promise<void> {
+    if (!this.stopping) {
+      this.stopping = this.drain();
+    }
+    return this.stopping;
+  }
+
+  private async drain() {
+    const deadline = Date.now() + (this.config.shutdownTimeoutMs || 25000);
+    const remaining = () => deadline - Date.now();
+    this.log('🛑 Draining slave...');
+
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+    if (this.syncTimer) {
+      clearTimeout(this.syncTimer);
+      this.syncTimer = null;
+      this.syncStatus.nextSyncAt = null;
+    }
+
+    this.scheduler.stop();
+    if (!await this.scheduler.waitForIdle(remaining())) {
+      this.logWarn(`⏱️ Shutdown deadline reached with ${this.scheduler.activeCount} checks still running`);
+    }
+
+    try {
+      await withDeadline(Promise.all(this.deliveries).then(() => this.flushReports()), remaining());
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.logError(`Failed to flush reports during shutdown: ${errorMessage}`);
+    }
+    this.outbox.stop();
+    await this.history.flush();
+    if (this.outbox.size > 0) {
+      this.logWarn(`📮 ${this.outbox.size} reports left in the outbox for the next start`);
+    }
+
+    try {
+      await withDeadline(this.sendHeartbeat({ leaving: true }), remaining());
+    } catch {
+      // Already logged and counted by sendHeartbeat
+    }
+
+    await this.app.stop();
+    this.log('👋 Slave stopped');
+  }
+
+  private async flushReports() {
+    await this.batcher?.flush();
+    await this.outbox.flush();
+  }
+
+  /**
+   * Runs one reconciliation and schedules the next: after the sync
+   * interval on success, with exponential backoff on failure.
+   */
+  private async runSync() {
+    try {
+      await this.syncServices();
+      this.syncFailures = 0;
+      const { added, updated, removed } = this.syncStatus;
+      const summary = `${added} added, ${updated} updated, ${removed} removed`;
+      if (added + updated + removed > 0) {
+        this.log(`✅ Synced services with master (${summary}), monitoring ${this.monitor.getServices().length}`);
+      } else {
+        this.logger.debug(`Services already in sync with master (${this.monitor.getServices().length} monitored)`);
+      }
+    } catch (error) {
+      this.syncFailures++;
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.logError(`Failed to sync services with master: ${errorMessage}`);
+    }
+
+    if (this.stopping) return;
+
+    const interval = this.config.syncIntervalMs || 300000;
+    const delay = this.syncFailures > 0
+      ? Math.min(interval, INITIAL_SYNC_RETRY_MS * Math.pow(2, this.syncFailures - 1))
+      : interval;
+    if (this.syncTimer) {
+      clearTimeout(this.syncTimer);
+    }
+    this.syncStatus.nextSyncAt = Date.now() + delay;
+    this.syncTimer = setTimeout(() => {
+      this.syncTimer = null;
+      this.runSync();
+    }, delay);
+  }
+
+  /**
+   * Brings the monitored set in line with the master's assignments:
+   * adds new services, updates changed ones and removes the rest.
+   */
+  private syncServices(): Promise<void> {
+    if (!this.syncing) {
+      this.syncStatus.lastAttemptAt = Date.now();
+      this.syncing = this.fetchAndApplyServices()
+        .then(changes => {
+          Object.assign(this.syncStatus, changes, { result: 'ok', error: null, lastSuccessAt: Date.now() });
+          this.metrics.inc('pingpals_service_syncs_total', { outcome: 'success' });
+        })
+        .catch((error: unknown) => {
+          this.syncStatus.result = 'error';
+          this.syncStatus.error = error instanceof Error ? error.message : String(error);
+          this.metrics.inc('pingpals_service_syncs_total', { outcome: 'failure' });
+          throw error;
+        })
+        .finally(() => {
+          this.syncing = null;
+        });
+    }
+    return this.syncing;
+  }
+
+  private async fetchAndApplyServices(): Promise<{ added: number; updated: number; removed: number }> {
+    const response = await fetch(`${this.config.masterUrl}/services`, {
+      headers: {
+        'Authorization': `Bearer ${this.config.apiKey}`
+      },
+      signal: AbortSignal.timeout(MASTER_REQUEST_TIMEOUT_MS)
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch services: ${response.statusText}`);
+    }
+
+    const services: AssignedServiceConfig[] = await response.json();
+    const assigned = new Map<string, ServiceConfig>();
+    for (const entry of services) {
+      if (!entry.assignedSlaves?.includes(this.config.id)) continue;
+      // The master's entries also carry assignment and status fields that change between syncs
+      const service = pickServiceConfig(entry);
+      const error = this.validateService(service);
+      if (error) {
+        this.logWarn(`⚠️ Skipping invalid service ${service.id} from master: ${error}`, { serviceId: service.id });
+        continue;
+      }
+      assigned.set(service.id, service as ServiceConfig);
+    }
+
+    const changes = { added: 0, updated: 0, removed: 0 };
+    for (const existing of this.monitor.getServices()) {
+      if (!assigned.has(existing.id)) {
+        this.removeService(existing.id);
+        changes.removed++;
+      }
+    }
+    for (const service of assigned.values()) {
+      const existing = this.monitor.getService(service.id);
+      if (!existing) {
+        await this.addService(service);
+        changes.added++;
+      } else if (stableStringify(pickServiceConfig(existing)) !== stableStringify(service)) {
+        this.updateService(service);
+        changes.updated++;
+      }
+    }
+    this.history.retain(new Set(assigned.keys()));
+    return changes;
+  }
+
+  private servicesHash(): string {
+    const ids = this.monitor.getServices().map(service => service.id).sort();
+    return createHash('sha256').update(ids.join('\n')).digest('hex');
+  }
+
+  private heartbeatPayload(leaving: boolean): HeartbeatPayload {
+    const now = Date.now();
+    const cpu = process.cpuUsage(this.lastCpuUsage);
+    const elapsedMs = Math.max(1, now - this.lastCpuSampleAt);
+    this.lastCpuUsage = process.cpuUsage();
+    this.lastCpuSampleAt = now;
+
+    return {
+      slaveId: this.config.id,
+      name: this.config.name,
+      version: SLAVE_VERSION,
+      region: this.config.region,
+      datacenter: this.config.datacenter,
+      supportedTypes: this.monitor.getSupportedTypes(),
+      services: this.monitor.getServices().map(service => service.id),
+      servicesHash: this.servicesHash(),
+      stats: {
+        cpuUsage: Math.round(((cpu.user + cpu.system) / 1000 / elapsedMs) * 10000) / 100,
+        memoryUsage: process.memoryUsage().rss,
+        uptime: Math.round(process.uptime()),
+        activeChecks: this.scheduler.activeCount,
+        queuedChecks: this.scheduler.queueDepth,
+        pendingReports: this.outbox.size
+      },
+      ...(leaving ? { leaving: true } : {})
+    };
+  }
+
   private async addService(service: ServiceConfig) {
-    this.log(`➕ Adding service ${service.name} (${service.id})`);
+    this.log(`➕ Adding service ${service.name} (${service.id})`, { serviceId: service.id, type: service.type });
     
     // Add to monitor
     this.monitor.addService(service);
 
-    // Convert milliseconds to seconds for cron, ensuring minimum 1 second
-    const intervalSeconds = Math.max(1, Math.floor(service.interval / 1000));
-    
-    // Create monitoring task using proper interval in seconds
-    const task = cron.schedule(`*/${intervalSeconds} * * * * *`, async () => {
-      try {
-        const result = await this.monitor.checkService(service);
-        await this.sendReport(result);
-      } catch (error: unknown) {
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        this.logError(`Error monitoring service ${service.name}: ${errorMessage}`);
-      }
+    // Schedule checks, running the first one as soon as a slot is free
+    this.scheduler.schedule(service.id, service.interval, () => this.runCheck(service.id), {
+      immediate: true
     });
 
-    // Start monitoring immediately
-    try {
-      const initialResult = await this.monitor.checkService(service);
-      await this.sendReport(initialResult);
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      this.logError(`Error in initial check for ${service.name}: ${errorMessage}`);
+    return {
+      status: 'ok',
+      message: `Service ${service.name} added and monitoring started`,
+      service: redactServiceConfig(service)
+    };
+  }
+
+  private handleServiceUpdate(service: ServiceBody, set: { status?: number | string }) {
+    if (!this.monitor.getService(service.id)) {
+      set.status = 404;
+      return { status: 'error', message: `Service ${service.id} not found` };
+    }
+    const error = this.validateService(service);
+    if (error) {
+      set.status = 400;
+      return { status: 'error', message: error };
+    }
+    return this.updateService(service as ServiceConfig);
+  }
+
+  /**
+   * Picks how ICMP checks run: ping if the self-test finds it usable,
+   * otherwise a TCP-connect probe on the configured fallback port. With
+   * neither, ICMP is not advertised and ICMP services are rejected.
+   */
+  private async detectCapabilities() {
+    const icmp = await detectIcmpMethod();
+    const fallbackPort = this.config.icmpFallbackPort;
+    if (icmp.method) {
+      this.monitor.setIcmpMethod(icmp.method);
+      this.log('📡 ICMP checks use the ping binary');
+    } else if (fallbackPort) {
+      this.monitor.setIcmpMethod('tcp', fallbackPort);
+      this.logWarn(`⚠️ ICMP is unavailable, falling back to TCP connect on port ${fallbackPort}: ${icmp.error}`);
+    } else {
+      this.monitor.setIcmpMethod(null);
+      this.logWarn(`⚠️ ICMP is unavailable and ICMP_FALLBACK_PORT is not set, ICMP services will be rejected: ${icmp.error}`);
     }
+  }
 
-    this.tasks.set(service.id, task);
-    return { status: 'ok', message: `Service ${service.name} added and monitoring started` };
+  /**
+   * Config validation plus a check that this slave can run the monitor
+   * type, so unsupported services are rejected instead of always failing.
+   */
+  private validateService(service: ServiceBody): string | null {
+    const error = validateServiceConfig(service);
+    if (error) return error;
+    if (!this.monitor.getSupportedTypes().includes(service.type)) {
+      return `Monitor type ${service.type} is not supported by this slave`;
+    }
+    return null;
   }
 
-  private removeService(serviceId: string) {
-    this.log(`➖ Removing service ${serviceId}`);
-    const task = this.tasks.get(serviceId);
-    if (task) {
-      task.stop();
-      this.tasks.delete(serviceId);
+  private updateService(service: ServiceConfig) {
+    this.log(`✏️ Updating service ${service.name} (${service.id})`, { serviceId: service.id, type: service.type });
+
+    // Keep the last result and schedule; checks read the config by id when they run
+    const previous = this.monitor.getService(service.id);
+    this.monitor.addService(service);
+    if (previous?.name !== service.name || previous?.type !== service.type || previous?.addressFamily !== service.addressFamily) {
+      // Metrics are labelled with these, so the old series would go stale
+      this.metrics.remove({ service_id: service.id });
+    }
+    if (previous?.interval !== service.interval) {
+      this.scheduler.schedule(service.id, service.interval, () => this.runCheck(service.id));
     }
+
+    return {
+      status: 'ok',
+      message: `Service ${service.name} updated`,
+      service: redactServiceConfig(service)
+    };
+  }
+
+  private describeService(service: ServiceConfig) {
+    if (service.addressFamily !== 'both') {
+      return {
+        service: redactServiceConfig(service),
+        ...describeState(this.monitor.getServiceState(service.id)),
+        nextRunAt: this.scheduler.nextRunAt(service.id)
+      };
+    }
+
+    // Each family is tracked separately; the top level shows the newest result and the worse status
+    const ipv4 = describeState(this.monitor.getServiceState(service.id, 'ipv4'));
+    const ipv6 = describeState(this.monitor.getServiceState(service.id, 'ipv6'));
+    const newest = (ipv4.lastResult?.timestamp ?? 0) >= (ipv6.lastResult?.timestamp ?? 0) ? ipv4 : ipv6;
+    return {
+      service: redactServiceConfig(service),
+      lastResult: newest.lastResult,
+      lastSuccessAt: latest(ipv4.lastSuccessAt, ipv6.lastSuccessAt),
+      lastFailureAt: latest(ipv4.lastFailureAt, ipv6.lastFailureAt),
+      confirmedStatus: STATUS_SEVERITY[ipv4.confirmedStatus] >= STATUS_SEVERITY[ipv6.confirmedStatus]
+        ? ipv4.confirmedStatus
+        : ipv6.confirmedStatus,
+      flapping: ipv4.flapping || ipv6.flapping,
+      families: { ipv4, ipv6 },
+      nextRunAt: this.scheduler.nextRunAt(service.id)
+    };
+  }
+
+  private removeService(serviceId: string) {
+    this.log(`➖ Removing service ${serviceId}`, { serviceId });
+    this.scheduler.unschedule(serviceId);
     this.monitor.removeService(serviceId);
+    this.metrics.remove({ service_id: serviceId });
+    this.history.remove(serviceId);
     return { status: 'ok', message: `Service ${serviceId} removed` };
   }
 
-  private async sendHeartbeat() {
+  private hasHistory(serviceId: string): boolean {
+    return this.monitor.getService(serviceId) !== undefined || this.history.has(serviceId);
+  }
+
+  // Only results of services checked over both families carry a family to split or filter by
+  private isDualStack(serviceId: string): boolean {
+    return this.monitor.getService(serviceId)?.addressFamily === 'both';
+  }
+
+  private historyRange(query: { from?: number; to?: number }): { from: number; to: number } {
+    const to = query.to ?? Date.now();
+    return { from: query.from ?? to - DEFAULT_HISTORY_RANGE_MS, to };
+  }
+
+  private async authorize(request: Request, ip?: string): Promise<{ code: 401 | 403; message: string } | null> {
+    const auth = this.config.auth || {};
+    const url = new URL(request.url);
+    const route = `${request.method} ${url.pathname}`;
+    const source = ip || 'unknown address';
+
+    if (auth.allowedIps && auth.allowedIps.length > 0 && (!ip || !isIpAllowed(ip, auth.allowedIps))) {
+      this.logWarn(`🚫 Rejected ${route} from ${source}: address not in allowlist`);
+      return { code: 403, message: 'Forbidden' };
+    }
+
+    const key = auth.apiKey || this.config.apiKey;
+    const header = request.headers.get('authorization') || '';
+    const token = header.startsWith('Bearer ') ? header.slice('Bearer '.length) : '';
+    if (!key || !safeEqual(token, key)) {
+      this.logWarn(`🚫 Rejected ${route} from ${source}: invalid or missing API key`);
+      return { code: 401, message: 'Unauthorized' };
+    }
+
+    if (!auth.requireSignature) {
+      return null;
+    }
+
+    const timestamp = request.headers.get('x-pingpals-timestamp');
+    const signature = request.headers.get('x-pingpals-signature');
+    if (!timestamp || !signature) {
+      this.logWarn(`🚫 Rejected ${route} from ${source}: missing request signature`);
+      return { code: 401, message: 'Missing request signature' };
+    }
+
+    const rejection = verifySignature({
+      timestamp,
+      signature,
+      method: request.method,
+      path: url.pathname + url.search,
+      body: await (this.rawBodies.get(request) || '')
+    }, key, auth.signatureToleranceMs || 300000, this.replayCache);
+    if (rejection) {
+      this.logWarn(`🚫 Rejected ${route} from ${source}: ${rejection}`);
+      return { code: 401, message: SIGNATURE_REJECTION_MESSAGES[rejection] };
+    }
+
+    return null;
+  }
+
+  private async runCheck(serviceId: string) {
+    const service = this.monitor.getServices().find(s => s.id === serviceId);
+    if (!service) return;
+
+    try {
+      const results = await this.monitor.runChecks(service);
+      for (const result of results) {
+        this.recordCheckMetrics(service, result);
+        // Results of services removed mid-check are not kept
+        if (this.monitor.getService(service.id)) {
+          this.history.add(result);
+        }
+        // Delivery runs outside the check so a slow master does not hold a scheduler slot
+        this.dispatchReport(result);
+      }
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.logError(`Error monitoring service ${service.name}: ${errorMessage}`, { serviceId: service.id });
+    }
+  }
+
+  private registerMetrics() {
+    this.metrics.gauge('pingpals_service_up', 'Whether the last check of the service succeeded (1) or failed (0)');
+    this.metrics.gauge('pingpals_service_degraded', 'Whether the last check of the service was degraded (1) or not (0)');
+    this.metrics.gauge('pingpals_service_flapping', 'Whether the service is currently flapping (1) or not (0)');
+    this.metrics.gauge('pingpals_service_last_duration_seconds', 'Duration of the last check in seconds');
+    this.metrics.gauge('pingpals_service_last_check_timestamp_seconds', 'Unix time of the last check');
+    this.metrics.counter('pingpals_checks_total', 'Checks run');
+    this.metrics.counter('pingpals_check_failures_total', 'Failed checks by error code and category');
+    this.metrics.counter('pingpals_check_retries_total', 'Retries performed by checks');
+    this.metrics.gauge('pingpals_scheduler_queue_depth', 'Checks waiting for a concurrency slot');
+    this.metrics.gauge('pingpals_scheduler_active_checks', 'Checks currently running');
+    this.metrics.counter('pingpals_reports_total', 'Report deliveries to the master by outcome');
+    this.metrics.gauge('pingpals_outbox_pending_reports', 'Reports queued for replay');
+    this.metrics.counter('pingpals_heartbeats_total', 'Heartbeats sent to the master by outcome');
+    this.metrics.counter('pingpals_service_syncs_total', 'Service reconciliations with the master by outcome');
+    this.metrics.gauge('pingpals_heartbeat_age_seconds', 'Seconds since the last successful heartbeat');
+    this.metrics.gauge('process_resident_memory_bytes', 'Resident memory size in bytes');
+    this.metrics.gauge('process_heap_used_bytes', 'JavaScript heap in use in bytes');
+    this.metrics.counter('process_cpu_seconds_total', 'User and system CPU time spent in seconds');
+    this.metrics.gauge('process_uptime_seconds', 'Seconds since the process started');
+  }
+
+  private recordCheckMetrics(service: ServiceConfig, result: MonitoringResult) {
+    const labels = {
+      service_id: service.id,
+      service_name: service.name,
+      service_type: service.type,
+      address_family: service.addressFamily === 'both'
+        ? result.addressFamily || 'unknown'
+        : service.addressFamily || 'auto'
+    };
+
+    this.metrics.set('pingpals_service_up', labels, result.success ? 1 : 0);
+    this.metrics.set('pingpals_service_degraded', labels, result.status === 'degraded' ? 1 : 0);
+    this.metrics.set('pingpals_service_flapping', labels, result.flapping ? 1 : 0);
+    this.metrics.set('pingpals_service_last_duration_seconds', labels, result.duration / 1000);
+    this.metrics.set('pingpals_service_last_check_timestamp_seconds', labels, Math.floor(result.timestamp / 1000));
+    this.metrics.inc('pingpals_checks_total', labels);
+    if (result.attempts && result.attempts > 1) {
+      this.metrics.inc('pingpals_check_retries_total', labels, result.attempts - 1);
+    }
+    if (!result.success) {
+      const code = result.errorCode ?? 'UNKNOWN';
+      this.metrics.inc('pingpals_check_failures_total', { ...labels, code, category: failureCategory(code) });
+    }
+  }
+
+  private renderMetrics(): string {
+    const memory = process.memoryUsage();
+    const cpu = process.cpuUsage();
+
+    this.metrics.set('pingpals_scheduler_queue_depth', {}, this.scheduler.queueDepth);
+    this.metrics.set('pingpals_scheduler_active_checks', {}, this.scheduler.activeCount);
+    this.metrics.set('pingpals_outbox_pending_reports', {}, this.outbox.size);
+    if (this.lastHeartbeatAt !== null) {
+      this.metrics.set('pingpals_heartbeat_age_seconds', {}, (Date.now() - this.lastHeartbeatAt) / 1000);
+    }
+    this.metrics.set('process_resident_memory_bytes', {}, memory.rss);
+    this.metrics.set('process_heap_used_bytes', {}, memory.heapUsed);
+    this.metrics.set('process_cpu_seconds_total', {}, (cpu.user + cpu.system) / 1e6);
+    this.metrics.set('process_uptime_seconds', {}, process.uptime());
+
+    return this.metrics.render();
+  }
+
+  private async sendHeartbeat(options: { leaving?: boolean } = {}) {
+    let masterHash: string | undefined;
     try {
       const response = await fetch(`${this.config.masterUrl}/heartbeat`, {
         method: 'POST',
         headers: {
           'Authorization': `Bearer ${this.config.apiKey}`,
           'Content-Type': 'application/json',
-          'X-Slave-Id': this.config.id,
-          'X-Slave-Name': this.config.name || 'Unnamed Slave',
-          'X-Slave-Services': JSON.stringify(Array.from(this.monitor.getServices().keys()))
-        }
+          'X-Slave-Id': this.config.id
+        },
+        body: JSON.stringify(this.heartbeatPayload(options.leaving ?? false)),
+        signal: AbortSignal.timeout(MASTER_REQUEST_TIMEOUT_MS)
       });
 
       if (!response.ok) {
         throw new Error(`Failed to send heartbeat: ${response.statusText}`);
       }
 
-      this.log('💓 Heartbeat sent successfully');
+      this.lastHeartbeatAt = Date.now();
+      this.metrics.inc('pingpals_heartbeats_total', { outcome: 'success' });
+      this.log(options.leaving ? '💓 Final heartbeat sent, master notified of shutdown' : '💓 Heartbeat sent successfully');
+
+      // Older masters answer with an empty or non-JSON body
+      const body: HeartbeatResponse | null = await response.json().catch(() => null);
+      masterHash = body?.servicesHash;
     } catch (error) {
+      this.metrics.inc('pingpals_heartbeats_total', { outcome: 'failure' });
       const errorMessage = error instanceof Error ? error.message : String(error);
       this.logError(`❌ Failed to send heartbeat: ${errorMessage}`);
       throw error;
     }
+
+    if (masterHash && !options.leaving && !this.stopping && masterHash !== this.servicesHash()) {
+      this.log('🔄 Service assignments changed on the master, resyncing...');
+      await this.runSync();
+    }
+  }
+
+  private dispatchReport(result: MonitoringResult) {
+    const delivery = this.sendReport(result)
+      .catch((error: unknown) => {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        this.logError(`Failed to report result for ${result.serviceId}: ${errorMessage}`, { serviceId: result.serviceId });
+      })
+      .finally(() => {
+        this.deliveries.delete(delivery);
+      });
+    this.deliveries.add(delivery);
   }
 
   private async sendReport(result: MonitoringResult) {
+    const report: ReportPayload = {
+      ...result,
+      slaveId: this.config.id
+    };
+
+    if (this.batcher && this.batchSupported) {
+      this.batcher.add(report);
+      return;
+    }
+
+    await this.sendReports([report]);
+  }
+
+  private async sendReports(reports: ReportPayload[]) {
+    // Once anything is queued, newer reports wait behind it to keep ordering
+    if (this.outbox.size > 0) {
+      await this.queueReports(reports);
+      return;
+    }
+
+    if (reports.length > 1 && this.batchSupported) {
+      try {
+        if (await this.deliverBatch(reports)) {
+          return;
+        }
+        this.batchSupported = false;
+        this.logWarn('⚠️ Master does not accept batched reports, falling back to single reports');
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        if (error instanceof PermanentDeliveryError) {
+          this.logError(`❌ Report batch rejected by master: ${errorMessage}`);
+          return;
+        }
+        this.logWarn(`📮 Failed to send report batch, queued ${reports.length} for retry: ${errorMessage}`);
+        await this.queueReports(reports);
+        return;
+      }
+    }
+
+    for (let i = 0; i < reports.length; i++) {
+      try {
+        await this.deliverReport(reports[i]);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        if (error instanceof PermanentDeliveryError) {
+          this.logError(`❌ Report rejected by master: ${errorMessage}`);
+          continue;
+        }
+        this.logWarn(`📮 Failed to send report, queued ${reports.length - i} for retry: ${errorMessage}`);
+        await this.queueReports(reports.slice(i));
+        return;
+      }
+    }
+  }
+
+  private async queueReports(reports: ReportPayload[]) {
+    for (const report of reports) {
+      await this.outbox.enqueue(report);
+    }
+  }
+
+  private async deliverReport(report: ReportPayload) {
+    const response = await this.postToMaster('/report', {
+      'Content-Type': 'application/json'
+    }, JSON.stringify(report), 'single');
+
+    if (!response.ok) {
+      throw this.deliveryError(response, 'report');
+    }
+  }
+
+  /**
+   * Sends several reports in one request. Resolves to false when the
+   * master has no batch endpoint, so the caller can fall back.
+   */
+  private async deliverBatch(reports: ReportPayload[]): Promise<boolean> {
+    const payload = JSON.stringify({ slaveId: this.config.id, reports });
+    const gzip = this.config.reporting?.gzip ?? false;
+
+    const response = await this.postToMaster('/report/batch', {
+      'Content-Type': 'application/json',
+      ...(gzip ? { 'Content-Encoding': 'gzip' } : {})
+    }, gzip ? gzipSync(payload) : payload, 'batch');
+
+    if (response.status === 404 || response.status === 405 || response.status === 501) {
+      return false;
+    }
+    if (!response.ok) {
+      throw this.deliveryError(response, 'report batch');
+    }
+    return true;
+  }
+
+  private async postToMaster(
+    path: string,
+    headers: Record<string, string>,
+    body: BodyInit,
+    mode: 'single' | 'batch'
+  ): Promise<Response> {
     try {
-      const response = await fetch(`${this.config.masterUrl}/report`, {
+      const response = await fetch(`${this.config.masterUrl}${path}`, {
         method: 'POST',
         headers: {
           'Authorization': `Bearer ${this.config.apiKey}`,
-          'Content-Type': 'application/json',
-          'X-Slave-Id': this.config.id
+          'X-Slave-Id': this.config.id,
+          ...headers
         },
-        body: JSON.stringify({
-          ...result,
-          slaveId: this.config.id
-        })
+        body,
+        signal: AbortSignal.timeout(MASTER_REQUEST_TIMEOUT_MS)
       });
-
-      if (!response.ok) {
-        throw new Error(`Failed to send report: ${response.statusText}`);
-      }
+      this.metrics.inc('pingpals_reports_total', { mode, outcome: response.ok ? 'success' : 'failure' });
+      return response;
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      this.logError(`❌ Failed to send report: ${errorMessage}`);
+      this.metrics.inc('pingpals_reports_total', { mode, outcome: 'failure' });
       throw error;
     }
   }
 
-  private log(message: string) {
-    this.logger.info(message);
+  private deliveryError(response: Response, what: string): Error {
+    const message = `Failed to send ${what}: ${response.status} ${response.statusText}`;
+    // Only a rejected payload can never succeed on replay; auth and routing problems get fixed on the master
+    if (PAYLOAD_REJECTED_STATUSES.has(response.status)) {
+      return new PermanentDeliveryError(message);
+    }
+    return new Error(message);
+  }
+
+  private log(message: string, fields?: LogFields) {
+    this.logger.info(message, fields);
   }
 
-  private logError(message: string) {
-    this.logger.error(message);
+  private logError(message: string, fields?: LogFields) {
+    this.logger.error(message, fields);
   }
 
-  private logWarn(message: string) {
-    this.logger.warn(message);
+  private logWarn(message: string, fields?: LogFields) {
+    this.logger.warn(message, fields);
   }
 }
 
@@ -234,8 +1066,67 @@ const config: SlaveConfig = {
   maxConcurrentChecks: parseInt(process.env.MAX_CONCURRENT_CHECKS || '50'),
   checkTimeout: parseInt(process.env.CHECK_TIMEOUT || '30000'),
   retryAttempts: parseInt(process.env.RETRY_ATTEMPTS || '3'),
-  host: process.env.HOST || 'localhost'
+  retry: {
+    delayMs: parseInt(process.env.RETRY_DELAY || '1000'),
+    backoff: process.env.RETRY_BACKOFF && isRetryBackoff(process.env.RETRY_BACKOFF) ? process.env.RETRY_BACKOFF : 'fixed',
+    maxDelayMs: parseInt(process.env.RETRY_MAX_DELAY || '30000'),
+    jitter: parseFloat(process.env.RETRY_JITTER || '0'),
+    retryOn: process.env.RETRY_ON
+      ? process.env.RETRY_ON.split(',').map(category => category.trim()).filter(isFailureCategory)
+      : undefined
+  },
+  host: process.env.HOST || 'localhost',
+  auth: {
+    apiKey: process.env.SLAVE_API_KEY || undefined,
+    requireSignature: process.env.REQUIRE_SIGNATURE === 'true',
+    signatureToleranceMs: parseInt(process.env.SIGNATURE_TOLERANCE || '300000'),
+    allowedIps: process.env.MASTER_ALLOWED_IPS
+      ? process.env.MASTER_ALLOWED_IPS.split(',').map(ip => ip.trim()).filter(Boolean)
+      : undefined
+  },
+  outbox: {
+    path: process.env.OUTBOX_PATH || undefined,
+    maxSize: parseInt(process.env.OUTBOX_MAX_SIZE || '10000'),
+    dropPolicy: process.env.OUTBOX_DROP_POLICY === 'drop-newest' ? 'drop-newest' : 'drop-oldest'
+  },
+  reporting: {
+    mode: process.env.REPORT_MODE === 'batch' ? 'batch' : 'single',
+    batchSize: parseInt(process.env.REPORT_BATCH_SIZE || '50'),
+    maxDelayMs: parseInt(process.env.REPORT_BATCH_DELAY || '5000'),
+    gzip: process.env.REPORT_GZIP === 'true'
+  },
+  logging: {
+    level: process.env.LOG_LEVEL && isLogLevel(process.env.LOG_LEVEL) ? process.env.LOG_LEVEL : 'info',
+    format: process.env.LOG_FORMAT === 'json' ? 'json' : 'text',
+    file: process.env.LOG_TO_FILE !== 'false',
+    dir: process.env.LOG_DIR || undefined,
+    maxFileSize: parseInt(process.env.LOG_MAX_SIZE || '10485760'),
+    retentionDays: parseInt(process.env.LOG_RETENTION_DAYS || '14')
+  },
+  shutdownTimeoutMs: parseInt(process.env.SHUTDOWN_TIMEOUT || '25000'),
+  region: process.env.SLAVE_REGION || undefined,
+  datacenter: process.env.SLAVE_DATACENTER || undefined,
+  heartbeatIntervalMs: parseInt(process.env.HEARTBEAT_INTERVAL || '30') * 1000,
+  syncIntervalMs: parseInt(process.env.SYNC_INTERVAL || '300') * 1000,
+  history: {
+    path: process.env.HISTORY_PATH || undefined,
+    maxResultsPerService: parseInt(process.env.HISTORY_SIZE || '1000')
+  },
+  icmpFallbackPort: process.env.ICMP_FALLBACK_PORT ? parseInt(process.env.ICMP_FALLBACK_PORT) : undefined
 };
 
 const slave = new UptimeSlave(config);
 slave.start(config.port || 3001);
+
+// Drain on shutdown; a second signal exits immediately
+let shuttingDown = false;
+const shutdown = () => {
+  if (shuttingDown) {
+    process.exit(1);
+  }
+  shuttingDown = true;
+  slave.stop().finally(() => process.exit(0));
+};
+
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
@@ -0,0 +1,98 @@
+export type MetricLabels = Record<string, string>;
+
+type MetricType = 'counter' | 'gauge';
+
+interface MetricFamily {
+  type: MetricType;
+  help: string;
+  series: Map<string, { labels: MetricLabels; value: number }>;
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: MetricLabels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return '';
+  return `{${entries.map(([key, value]) => `${key}="${escapeLabelValue(value)}"`).join(',')}}`;
+}
+
+/**
+ * Minimal Prometheus registry rendering the text exposition format.
+ * Every series carries the registry's default labels (e.g. slave_id).
+ */
+export class MetricsRegistry {
+  private families: Map<string, MetricFamily> = new Map();
+  private defaultLabels: MetricLabels;
+
+  constructor(defaultLabels: MetricLabels = {}) {
+    this.defaultLabels = defaultLabels;
+  }
+
+  counter(name: string, help: string) {
+    this.register(name, 'counter', help);
+  }
+
+  gauge(name: string, help: string) {
+    this.register(name, 'gauge', help);
+  }
+
+  inc(name: string, labels: MetricLabels = {}, value: number = 1) {
+    const series = this.series(name, labels);
+    series.value += value;
+  }
+
+  set(name: string, labels: MetricLabels = {}, value: number) {
+    const series = this.series(name, labels);
+    series.value = value;
+  }
+
+  /**
+   * Drops every series whose labels include all of `match`,
+   * e.g. { service_id } once a service stops being monitored.
+   */
+  remove(match: MetricLabels) {
+    for (const family of this.families.values()) {
+      for (const [key, series] of family.series) {
+        if (Object.entries(match).every(([label, value]) => series.labels[label] === value)) {
+          family.series.delete(key);
+        }
+      }
+    }
+  }
+
+  render(): string {
+    const lines: string[] = [];
+    for (const [name, family] of this.families) {
+      lines.push(`# HELP ${name} ${family.help}`);
+      lines.push(`# TYPE ${name} ${family.type}`);
+      for (const series of family.series.values()) {
+        lines.push(`${name}${formatLabels(series.labels)} ${series.value}`);
+      }
+    }
+    return lines.join('\n') + '\n';
+  }
+
+  private register(name: string, type: MetricType, help: string) {
+    if (!this.families.has(name)) {
+      this.families.set(name, { type, help, series: new Map() });
+    }
+  }
+
+  private series(name: string, labels: MetricLabels) {
+    const family = this.families.get(name);
+    if (!family) {
+      throw new Error(`Metric ${name} is not registered`);
+    }
+
+    const allLabels = { ...this.defaultLabels, ...labels };
+    const key = formatLabels(allLabels);
+    let series = family.series.get(key);
+    if (!series) {
+      series = { labels: allLabels, value: 0 };
+      family.series.set(key, series);
+    }
+    return series;
+  }
+}
@@ -0,0 +1,82 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { createServer } from 'net';
+import { UptimeMonitor } from './monitor';
+import { TcpServiceConfig } from './types';
+import { configureLogging } from './utils/logger';
+import { DEFAULT_RETRY_POLICY } from './utils/retry';
+import { closedPort, closeServers, listen } from './test/loopback';
+
+let openPort: number;
+let refusedPort: number;
+
+beforeAll(async () => {
+  configureLogging({ file: false, level: 'error' });
+  openPort = await listen(createServer(socket => socket.end()));
+  refusedPort = await closedPort();
+});
+
+afterAll(closeServers);
+
+function createMonitor() {
+  return new UptimeMonitor({
+    maxConcurrent: 1,
+    timeout: 1000,
+    retry: { ...DEFAULT_RETRY_POLICY, attempts: 1 }
+  });
+}
+
+function service(overrides: Partial<TcpServiceConfig> = {}): TcpServiceConfig {
+  return {
+    id: 'tcp',
+    name: 'tcp',
+    type: 'tcp',
+    interval: 60000,
+    timeout: 1000,
+    host: '127.0.0.1',
+    port: openPort,
+    ...overrides
+  };
+}
+
+// Registers the config (as a sync or update would) and runs one check
+async function check(monitor: UptimeMonitor, config: TcpServiceConfig) {
+  monitor.addService(config);
+  return (await monitor.checkService(config)).confirmedStatus;
+}
+
+describe('status confirmation', () => {
+  test('stays unknown until failureThreshold failures in a row', async () => {
+    const monitor = createMonitor();
+    const failing = service({ port: refusedPort, failureThreshold: 3 });
+
+    expect(await check(monitor, failing)).toBe('unknown');
+    expect(await check(monitor, failing)).toBe('unknown');
+    expect(await check(monitor, failing)).toBe('down');
+  });
+
+  test('stays unknown until recoveryThreshold successes in a row', async () => {
+    const monitor = createMonitor();
+    const healthy = service({ recoveryThreshold: 2 });
+
+    expect(await check(monitor, healthy)).toBe('unknown');
+    expect(await check(monitor, healthy)).toBe('up');
+  });
+
+  test('a failure after start does not count towards a later success run', async () => {
+    const monitor = createMonitor();
+    const thresholds = { failureThreshold: 3, recoveryThreshold: 2 };
+
+    await check(monitor, service({ ...thresholds, port: refusedPort }));
+    expect(await check(monitor, service(thresholds))).toBe('unknown');
+    expect(await check(monitor, service(thresholds))).toBe('up');
+  });
+
+  test('confirms DOWN only after failureThreshold failures once UP', async () => {
+    const monitor = createMonitor();
+    const thresholds = { failureThreshold: 2 };
+
+    expect(await check(monitor, service(thresholds))).toBe('up');
+    expect(await check(monitor, service({ ...thresholds, port: refusedPort }))).toBe('up');
+    expect(await check(monitor, service({ ...thresholds, port: refusedPort }))).toBe('down');
+  });
+});
@@ -1,17 +1,43 @@
-import { ping } from './utils/ping';
-import { ServiceConfig, MonitoringResult } from './types';
+import { ping, PingResult } from './utils/ping';
+import { tcpProbe } from './utils/tcp';
+import { dnsLookup, normalizeRecordValue } from './utils/dns';
+import { tlsProbe } from './utils/tls';
+import { ServiceConfig, MonitorType, MonitoringResult, CheckStatus, AssertionFailure, CertificateInfo, ServiceState, RttStats, IpFamily, HttpTimings, AttemptError, ErrorCode, IcmpMethod } from './types';
 import { Logger } from './utils/logger';
+import { evaluateAssertions } from './utils/assertions';
+import { sendHttpRequest } from './utils/http';
+import { resolveHost, addressFamily } from './utils/address';
+import { redactUrl } from './utils/redact';
+import { ResolvedRetryPolicy, resolveRetryPolicy, retryDelay, sleep } from './utils/retry';
+import { errorCodeOf, failureCategory } from './utils/errors';
+
+const DEFAULT_TLS_PORT = 443;
+const DEFAULT_EXPIRY_WARNING_DAYS = 30;
+const DEFAULT_EXPIRY_CRITICAL_DAYS = 7;
+const DEFAULT_FLAP_WINDOW_MS = 10 * 60 * 1000;
+const DEFAULT_FLAP_THRESHOLD = 5;
+
+function stateKey(serviceId: string, family?: IpFamily): string {
+  return family ? `${serviceId}/${family}` : serviceId;
+}
+
+export const SUPPORTED_MONITOR_TYPES: MonitorType[] = ['http', 'icmp', 'tcp', 'dns', 'tls'];
 
 interface MonitorConfig {
   maxConcurrent: number;
   timeout: number;
-  retryAttempts: number;
+  // Slave-wide policy; services may override individual fields
+  retry: ResolvedRetryPolicy;
 }
 
 export class UptimeMonitor {
   private services: Map<string, ServiceConfig> = new Map();
+  private states: Map<string, ServiceState> = new Map();
   private logger: Logger;
   private config: MonitorConfig;
+  // Assumed usable until the startup self-test says otherwise; null means ICMP checks cannot run
+  private icmpMethod: IcmpMethod | null = 'binary';
+  private icmpFallbackPort: number | undefined;
 
   constructor(config: MonitorConfig) {
     this.config = config;
@@ -19,32 +45,96 @@ export class UptimeMonitor {
   }
 
   addService(service: ServiceConfig) {
+    const existing = this.services.get(service.id);
+    if (existing && (existing.addressFamily === 'both') !== (service.addressFamily === 'both')) {
+      // States are keyed differently with and without per-family checks
+      this.clearStates(service.id);
+    }
     this.services.set(service.id, service);
   }
 
   removeService(serviceId: string) {
     this.services.delete(serviceId);
+    this.clearStates(serviceId);
   }
 
   clearServices() {
     this.services.clear();
+    this.states.clear();
   }
 
   getServices(): ServiceConfig[] {
     return Array.from(this.services.values());
   }
 
-  private async checkHttpService(service: ServiceConfig): Promise<MonitoringResult> {
+  getService(serviceId: string): ServiceConfig | undefined {
+    return this.services.get(serviceId);
+  }
+
+  setIcmpMethod(method: IcmpMethod | null, fallbackPort?: number) {
+    this.icmpMethod = method;
+    this.icmpFallbackPort = fallbackPort;
+  }
+
+  getIcmpMethod(): IcmpMethod | null {
+    return this.icmpMethod;
+  }
+
+  /**
+   * Monitor types this slave can actually run, as advertised to the master.
+   */
+  getSupportedTypes(): MonitorType[] {
+    return SUPPORTED_MONITOR_TYPES.filter(type => type !== 'icmp' || this.icmpMethod !== null);
+  }
+
+  /**
+   * State of a service, or of one of its address families when it is
+   * checked with `addressFamily: 'both'`. Each family confirms and flaps
+   * on its own so a family that is down does not toggle the other.
+   */
+  getServiceState(serviceId: string, family?: IpFamily): ServiceState {
+    return this.states.get(stateKey(serviceId, family)) || {
+      lastResult: null,
+      lastSuccessAt: null,
+      lastFailureAt: null,
+      confirmedStatus: 'unknown',
+      consecutiveFailures: 0,
+      consecutiveSuccesses: 0,
+      transitions: [],
+      flapping: false
+    };
+  }
+
+  private clearStates(serviceId: string) {
+    for (const family of [undefined, 'ipv4', 'ipv6'] as const) {
+      this.states.delete(stateKey(serviceId, family));
+    }
+  }
+
+  private async checkHttpService(service: ServiceConfig, family?: IpFamily): Promise<MonitoringResult> {
     if (service.type !== 'http') {
       throw new Error('Invalid service type: expected HTTP service');
     }
 
     const startTime = Date.now();
     let error: string | null = null;
+    let errorCode: ErrorCode | null = null;
     let success = false;
     let duration = 0;
+    let failedAssertion: AssertionFailure | null = null;
+    let resolvedAddress: string | undefined;
+    let resolvedFamily: IpFamily | undefined = family;
+    let timings: HttpTimings | undefined;
+    let statusCode: number | undefined;
+    let responseSize: number | undefined;
+    let finalUrl: string | undefined;
+    let attempts = 0;
+    const attemptErrors: AttemptError[] = [];
+    const policy = this.retryPolicy(service);
 
-    for (let attempt = 1; attempt <= this.config.retryAttempts; attempt++) {
+    for (let attempt = 1; attempt <= policy.attempts; attempt++) {
+      attempts = attempt;
+      failedAssertion = null;
       try {
         const controller = new AbortController();
         const timeoutId = setTimeout(() => {
@@ -53,161 +143,591 @@ export class UptimeMonitor {
 
         const fetchStartTime = Date.now();
         
-        const response = await fetch(service.url, {
+        const { response, url } = await sendHttpRequest(service, {
           signal: controller.signal,
-          headers: {
-            'User-Agent': 'PingPals-Monitor/1.0',
-            'Accept': 'application/json'
-          }
+          family,
+          sourceAddress: service.sourceAddress
         });
 
-        clearTimeout(timeoutId);
         duration = Date.now() - fetchStartTime;
+        resolvedAddress = response.remoteAddress;
+        resolvedFamily = response.remoteFamily ?? family;
 
-        if (response.status === 200) {
-          try {
-            const data = await response.json();
-            
-            // Validate that the response is an array of service statuses
-            if (Array.isArray(data)) {
-              const isValid = data.every(item => 
-                typeof item === 'object' &&
-                typeof item.id === 'string' &&
-                typeof item.name === 'string' &&
-                typeof item.type === 'string' &&
-                (item.type === 'http' || item.type === 'icmp') &&
-                typeof item.interval === 'number' &&
-                typeof item.timeout === 'number' &&
-                typeof item.lastStatus === 'boolean' &&
-                Array.isArray(item.assignedSlaves)
-              );
-              
-              if (isValid) {
-                success = true;
-                error = null;
-              } else {
-                success = false;
-                error = 'Invalid response data format';
-              }
-            } else {
-              success = false;
-              error = 'Response is not an array of services';
-            }
-          } catch (parseError) {
-            success = false;
-            error = 'Invalid JSON response';
-          }
-        } else {
-          success = false;
-          error = `HTTP ${response.status}: ${response.statusText}`;
+        // Always drain the body so download time and size are known; only a bounded prefix is kept
+        const body = await response.text();
+        clearTimeout(timeoutId);
+
+        timings = response.timings;
+        statusCode = response.status;
+        responseSize = response.size;
+        // The URL may carry credentials, and results are reported and stored
+        finalUrl = redactUrl(url);
+
+        failedAssertion = evaluateAssertions(service.assertions, {
+          status: response.status,
+          statusText: response.statusText,
+          headers: response.headers,
+          body,
+          duration
+        });
+
+        if (!failedAssertion) {
+          success = true;
+          error = null;
+          errorCode = null;
+          break;
         }
-        break;
+        error = failedAssertion.message;
+        errorCode = failedAssertion.assertion.type === 'status' ? 'HTTP_STATUS' : 'ASSERTION_FAILED';
       } catch (err) {
         duration = Date.now() - startTime;
-        const isTimeout = err instanceof Error && (
-          err.name === 'AbortError' || 
-          err.message.includes('timeout') || 
-          err.message.includes('abort')
-        );
-        
-        const isTlsError = err instanceof Error && (
-          err.message.includes('TLS') || 
-          err.message.includes('SSL') ||
-          err.message.includes('CERT')
-        );
-
-        error = isTimeout 
+        const message = err instanceof Error ? err.message : String(err);
+        errorCode = errorCodeOf(err);
+        error = errorCode === 'TIMEOUT'
           ? 'Request timed out'
-          : isTlsError
-          ? 'TLS connection failed'
-          : (err instanceof Error ? err.message : String(err));
+          : errorCode === 'TLS_ERROR' || errorCode === 'CERTIFICATE_INVALID' || errorCode === 'CERTIFICATE_EXPIRED'
+          ? `TLS connection failed: ${message}`
+          : message;
+      }
 
-        if (attempt === this.config.retryAttempts) {
-          break;
-        }
-        await new Promise(resolve => setTimeout(resolve, 1000)); // Wait 1 second before retry
+      if (!await this.retryAfter(policy, attemptErrors, attempt, error, errorCode)) {
+        break;
       }
     }
 
-    return {
+    return this.withStatus(service, {
       serviceId: service.id,
       timestamp: Date.now(),
       success,
+      attempts,
+      attemptErrors,
       duration,
-      error: error || 'Unknown error'
-    };
+      error,
+      errorCode,
+      addressFamily: resolvedFamily,
+      resolvedAddress,
+      timings,
+      statusCode,
+      responseSize,
+      finalUrl,
+      failedAssertion
+    });
   }
 
-  private async checkIcmpService(service: ServiceConfig): Promise<MonitoringResult> {
+  private async checkIcmpService(service: ServiceConfig, family?: IpFamily): Promise<MonitoringResult> {
     const startTime = Date.now();
     let error: string | null = null;
+    let errorCode: ErrorCode | null = null;
     let success = false;
+    let rtt: RttStats | undefined;
+    let packetLoss: number | undefined;
+    let target: { address: string; family: IpFamily } | undefined;
+    let attempts = 0;
+    const attemptErrors: AttemptError[] = [];
+    const policy = this.retryPolicy(service);
 
-    for (let attempt = 1; attempt <= this.config.retryAttempts; attempt++) {
+    for (let attempt = 1; attempt <= policy.attempts; attempt++) {
+      attempts = attempt;
       try {
         if (service.type !== 'icmp') throw new Error('Invalid service type');
-        
-        const result = await ping(service.host, {
-          timeout: service.timeout || this.config.timeout
-        });
+
+        // Resolve up front so the probed address and family are known
+        target = await resolveHost(service.host, family);
+        const result = this.icmpMethod === 'tcp' && this.icmpFallbackPort
+          ? await this.tcpReachability(target.address, target.family, this.icmpFallbackPort, service)
+          : await ping(target.address, {
+              timeout: service.timeout || this.config.timeout,
+              count: service.packetCount,
+              interval: service.packetInterval,
+              v6: target.family === 'ipv6',
+              sourceAddress: service.sourceAddress
+            });
 
         success = result.alive;
         error = success ? null : (result.error || 'Host is not responding to ICMP');
+        errorCode = success ? null : (result.code ?? 'NO_RESPONSE');
+        packetLoss = result.packetLoss;
+        rtt = result.avg !== undefined
+          ? {
+              min: result.min ?? result.avg,
+              avg: result.avg,
+              max: result.max ?? result.avg,
+              jitter: result.stddev ?? 0
+            }
+          : undefined;
         
         // If we get a permission error, log it clearly
-        if (error?.toLowerCase().includes('permission denied')) {
+        if (errorCode === 'PERMISSION_DENIED') {
           this.logger.error('Permission denied when running ping command. Please ensure sudo privileges are configured.');
           error = 'Permission denied for ICMP check. Configure sudo privileges.';
         }
-        
-        break;
       } catch (err) {
         error = err instanceof Error ? err.message : String(err);
-        if (attempt === this.config.retryAttempts) {
-          break;
+        errorCode = errorCodeOf(err);
+      }
+
+      if (!await this.retryAfter(policy, attemptErrors, attempt, error, errorCode)) {
+        break;
+      }
+    }
+
+    let degradedReason: string | undefined;
+    if (success && service.type === 'icmp' && service.degradedPacketLoss !== undefined && (packetLoss ?? 0) > service.degradedPacketLoss) {
+      degradedReason = `Packet loss ${packetLoss}% exceeds ${service.degradedPacketLoss}%`;
+    }
+
+    return this.withStatus(service, {
+      serviceId: service.id,
+      timestamp: Date.now(),
+      success,
+      attempts,
+      attemptErrors,
+      // Report round-trip time rather than the wall clock spent on retries
+      duration: rtt ? rtt.avg : Date.now() - startTime,
+      error,
+      errorCode,
+      addressFamily: target?.family ?? family,
+      resolvedAddress: target?.address,
+      rtt,
+      packetLoss,
+      icmpMethod: this.icmpMethod ?? undefined,
+      degradedReason
+    });
+  }
+
+  /**
+   * Stand-in for ping when ICMP is unusable: a TCP connect to `port`.
+   * A refused connection still proves the host is up.
+   */
+  private async tcpReachability(address: string, family: IpFamily, port: number, service: ServiceConfig): Promise<PingResult> {
+    const startTime = Date.now();
+    const result = await tcpProbe(address, port, {
+      timeout: service.timeout || this.config.timeout,
+      family,
+      sourceAddress: service.sourceAddress
+    });
+
+    if (!result.alive && result.code !== 'CONNECTION_REFUSED') {
+      return {
+        alive: false,
+        packetLoss: 100,
+        error: `TCP reachability probe on port ${port} failed: ${result.error}`,
+        code: result.code
+      };
+    }
+    const time = result.connectTime ?? Date.now() - startTime;
+    return { alive: true, time, min: time, avg: time, max: time, stddev: 0, packetLoss: 0 };
+  }
+
+  private async checkTcpService(service: ServiceConfig, family?: IpFamily): Promise<MonitoringResult> {
+    if (service.type !== 'tcp') {
+      throw new Error('Invalid service type: expected TCP service');
+    }
+
+    const startTime = Date.now();
+    let error: string | null = null;
+    let errorCode: ErrorCode | null = null;
+    let success = false;
+    let connectTime: number | undefined;
+    let resolvedAddress: string | undefined;
+    let resolvedFamily: IpFamily | undefined = family;
+    let attempts = 0;
+    const attemptErrors: AttemptError[] = [];
+    const policy = this.retryPolicy(service);
+
+    for (let attempt = 1; attempt <= policy.attempts; attempt++) {
+      attempts = attempt;
+      const result = await tcpProbe(service.host, service.port, {
+        timeout: service.timeout || this.config.timeout,
+        payload: service.payload,
+        expect: service.expect,
+        family,
+        sourceAddress: service.sourceAddress
+      });
+
+      success = result.alive;
+      connectTime = result.connectTime;
+      resolvedAddress = result.remoteAddress;
+      resolvedFamily = result.remoteFamily ?? family;
+      error = success ? null : (result.error || 'TCP connection failed');
+      errorCode = success ? null : (result.code ?? 'UNKNOWN');
+
+      if (!await this.retryAfter(policy, attemptErrors, attempt, error, errorCode)) {
+        break;
+      }
+    }
+
+    return this.withStatus(service, {
+      serviceId: service.id,
+      timestamp: Date.now(),
+      success,
+      attempts,
+      attemptErrors,
+      duration: connectTime ?? Date.now() - startTime,
+      error,
+      errorCode,
+      addressFamily: resolvedFamily,
+      resolvedAddress,
+      connectTime
+    });
+  }
+
+  private async checkDnsService(service: ServiceConfig, family?: IpFamily): Promise<MonitoringResult> {
+    if (service.type !== 'dns') {
+      throw new Error('Invalid service type: expected DNS service');
+    }
+
+    const startTime = Date.now();
+    let error: string | null = null;
+    let errorCode: ErrorCode | null = null;
+    let success = false;
+    let values: string[] = [];
+    let lookupTime: number | undefined;
+    let server: string | undefined;
+    let attempts = 0;
+    const attemptErrors: AttemptError[] = [];
+    const policy = this.retryPolicy(service);
+
+    for (let attempt = 1; attempt <= policy.attempts; attempt++) {
+      attempts = attempt;
+      const result = await dnsLookup(service.hostname, service.recordType, {
+        timeout: service.timeout || this.config.timeout,
+        resolver: service.resolver,
+        family,
+        sourceAddress: service.sourceAddress
+      });
+
+      values = result.values;
+      lookupTime = result.time;
+      server = result.server;
+
+      if (result.error) {
+        error = result.error;
+        errorCode = result.code ?? 'DNS_FAILURE';
+      } else if (values.length === 0) {
+        error = `No ${service.recordType} records found for ${service.hostname}`;
+        errorCode = 'NO_RECORDS';
+      } else if (service.expected && service.expected.length > 0) {
+        const actual = new Set(values.map(normalizeRecordValue));
+        const expected = new Set(service.expected.map(normalizeRecordValue));
+        const matches = actual.size === expected.size && [...expected].every(v => actual.has(v));
+        error = matches
+          ? null
+          : `Expected ${service.recordType} records [${service.expected.join(', ')}], got [${values.join(', ')}]`;
+        errorCode = matches ? null : 'ASSERTION_FAILED';
+      } else {
+        error = null;
+        errorCode = null;
+      }
+
+      success = error === null;
+      if (!await this.retryAfter(policy, attemptErrors, attempt, error, errorCode)) {
+        break;
+      }
+    }
+
+    return this.withStatus(service, {
+      serviceId: service.id,
+      timestamp: Date.now(),
+      success,
+      attempts,
+      attemptErrors,
+      duration: lookupTime ?? Date.now() - startTime,
+      error,
+      errorCode,
+      addressFamily: server ? addressFamily(server) : family,
+      resolvedAddress: server,
+      resolvedValues: values,
+      lookupTime
+    });
+  }
+
+  private async checkTlsService(service: ServiceConfig, family?: IpFamily): Promise<MonitoringResult> {
+    if (service.type !== 'tls') {
+      throw new Error('Invalid service type: expected TLS service');
+    }
+
+    const startTime = Date.now();
+    const port = service.port || DEFAULT_TLS_PORT;
+    const servername = service.servername || service.host;
+    const warningDays = service.expiryWarningDays ?? DEFAULT_EXPIRY_WARNING_DAYS;
+    const criticalDays = service.expiryCriticalDays ?? DEFAULT_EXPIRY_CRITICAL_DAYS;
+    let error: string | null = null;
+    let errorCode: ErrorCode | null = null;
+    let success = false;
+    let duration = 0;
+    let certificate: CertificateInfo | undefined;
+    let resolvedAddress: string | undefined;
+    let resolvedFamily: IpFamily | undefined = family;
+    let attempts = 0;
+    const attemptErrors: AttemptError[] = [];
+    const policy = this.retryPolicy(service);
+
+    for (let attempt = 1; attempt <= policy.attempts; attempt++) {
+      attempts = attempt;
+      const result = await tlsProbe(service.host, port, {
+        timeout: service.timeout || this.config.timeout,
+        servername,
+        family,
+        sourceAddress: service.sourceAddress
+      });
+
+      duration = result.handshakeTime ?? Date.now() - startTime;
+      certificate = result.certificate;
+      resolvedAddress = result.remoteAddress;
+      resolvedFamily = result.remoteFamily ?? family;
+
+      // Certificate problems are deterministic, so they are only retried if the policy asks for it
+      errorCode = 'CERTIFICATE_INVALID';
+      if (!result.connected) {
+        error = result.error || 'TLS connection failed';
+        errorCode = result.code ?? 'TLS_ERROR';
+      } else if (!certificate) {
+        error = result.error || 'Server did not present a certificate';
+      } else if (certificate.validTo < Date.now()) {
+        error = `Certificate expired on ${new Date(certificate.validTo).toISOString()}`;
+        errorCode = 'CERTIFICATE_EXPIRED';
+      } else if (certificate.validFrom > Date.now()) {
+        error = `Certificate is not valid before ${new Date(certificate.validFrom).toISOString()}`;
+      } else if (!certificate.trusted && !service.allowUntrusted) {
+        error = `Untrusted certificate: ${certificate.authorizationError}`;
+      } else if (!certificate.hostnameMatch) {
+        error = `Certificate does not match hostname ${servername}`;
+      } else if (certificate.daysRemaining < criticalDays) {
+        error = `Certificate expires in ${certificate.daysRemaining} days (threshold ${criticalDays})`;
+        errorCode = 'CERTIFICATE_EXPIRED';
+      } else {
+        error = null;
+        errorCode = null;
+        certificate.expiringSoon = certificate.daysRemaining < warningDays;
+        if (certificate.expiringSoon) {
+          this.logger.warn(`Certificate for ${service.name} expires in ${certificate.daysRemaining} days`);
         }
-        await new Promise(resolve => setTimeout(resolve, 1000)); // Wait 1 second before retry
+      }
+
+      if (!await this.retryAfter(policy, attemptErrors, attempt, error, errorCode)) {
+        break;
       }
     }
 
-    const endTime = Date.now();
-    const duration = endTime - startTime;
+    success = error === null;
 
-    return {
+    return this.withStatus(service, {
       serviceId: service.id,
       timestamp: Date.now(),
       success,
+      attempts,
+      attemptErrors,
       duration,
-      error
-    };
+      error,
+      errorCode,
+      addressFamily: resolvedFamily,
+      resolvedAddress,
+      certificate
+    });
+  }
+
+  private retryPolicy(service: ServiceConfig): ResolvedRetryPolicy {
+    return service.retry ? resolveRetryPolicy(this.config.retry, service.retry) : this.config.retry;
+  }
+
+  /**
+   * Records a failed attempt and, if the policy allows another one for this
+   * kind of failure, waits out the backoff. Returns false when the checker
+   * should stop with the current result, including when it succeeded.
+   */
+  private async retryAfter(
+    policy: ResolvedRetryPolicy,
+    attemptErrors: AttemptError[],
+    attempt: number,
+    error: string | null,
+    code: ErrorCode | null
+  ): Promise<boolean> {
+    if (error === null) {
+      return false;
+    }
+    const category = failureCategory(code ?? 'UNKNOWN');
+    attemptErrors.push({ attempt, error, code: code ?? 'UNKNOWN', category });
+    if (attempt >= policy.attempts || !policy.retryOn.includes(category)) {
+      return false;
+    }
+    await sleep(retryDelay(policy, attempt));
+    return true;
+  }
+
+  /**
+   * Derives the tri-state status of a finished check from its outcome,
+   * checker-specific degradation (packet loss, expiring certificate)
+   * and the service's latency thresholds.
+   */
+  private withStatus(service: ServiceConfig, result: Omit<MonitoringResult, 'status'>): MonitoringResult {
+    if (result.success && service.downLatency !== undefined && result.duration > service.downLatency) {
+      return {
+        ...result,
+        status: 'down',
+        success: false,
+        error: `Response time ${result.duration}ms exceeds ${service.downLatency}ms`,
+        errorCode: 'LATENCY_EXCEEDED',
+        degraded: false,
+        degradedReason: undefined
+      };
+    }
+    if (!result.success) {
+      return { ...result, status: 'down' };
+    }
+
+    let degradedReason = result.degradedReason;
+    if (!degradedReason && result.certificate?.expiringSoon) {
+      degradedReason = `Certificate expires in ${result.certificate.daysRemaining} days`;
+    }
+    if (!degradedReason && service.degradedLatency !== undefined && result.duration > service.degradedLatency) {
+      degradedReason = `Response time ${result.duration}ms exceeds ${service.degradedLatency}ms`;
+    }
+
+    const status: CheckStatus = degradedReason ? 'degraded' : 'up';
+    return { ...result, status, degraded: status === 'degraded', degradedReason };
   }
 
-  async checkService(service: ServiceConfig): Promise<MonitoringResult> {
-    this.logger.info(`Checking service ${service.name} (${service.id})`);
-    
+  /**
+   * Runs every check a service asks for: one per address family when
+   * `addressFamily` is 'both', otherwise a single check.
+   */
+  async runChecks(service: ServiceConfig): Promise<MonitoringResult[]> {
+    if (service.addressFamily === 'both') {
+      return Promise.all([
+        this.checkService(service, 'ipv4'),
+        this.checkService(service, 'ipv6')
+      ]);
+    }
+    return [await this.checkService(service)];
+  }
+
+  async checkService(service: ServiceConfig, family?: IpFamily): Promise<MonitoringResult> {
+    const stateFamily = service.addressFamily === 'both' ? family : undefined;
+    if (!family && (service.addressFamily === 'ipv4' || service.addressFamily === 'ipv6')) {
+      family = service.addressFamily;
+    }
+    const label = family ? ` over ${family === 'ipv4' ? 'IPv4' : 'IPv6'}` : '';
+    const fields = { serviceId: service.id, type: service.type, addressFamily: family };
+    this.logger.debug(`Checking service ${service.name} (${service.id})${label}`, fields);
+
+    let result: MonitoringResult;
     try {
-      const result = service.type === 'http' 
-        ? await this.checkHttpService(service)
-        : await this.checkIcmpService(service);
+      switch (service.type) {
+        case 'http':
+          result = await this.checkHttpService(service, family);
+          break;
+        case 'tcp':
+          result = await this.checkTcpService(service, family);
+          break;
+        case 'dns':
+          result = await this.checkDnsService(service, family);
+          break;
+        case 'tls':
+          result = await this.checkTlsService(service, family);
+          break;
+        default:
+          result = await this.checkIcmpService(service, family);
+      }
 
-      if (result.success) {
-        this.logger.info(`Service ${service.name} is UP (${result.duration}ms)`);
+      if (result.status === 'degraded') {
+        this.logger.warn(`Service ${service.name}${label} is DEGRADED: ${result.degradedReason}`, { ...fields, duration: result.duration });
+      } else if (result.success) {
+        this.logger.info(`Service ${service.name}${label} is UP (${result.duration}ms)`, { ...fields, duration: result.duration });
       } else {
-        this.logger.warn(`Service ${service.name} is DOWN: ${result.error}`);
+        this.logger.warn(`Service ${service.name}${label} is DOWN: ${result.error}`, { ...fields, duration: result.duration, attempts: result.attempts, errorCode: result.errorCode });
       }
-
-      return result;
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
-      this.logger.error(`Failed to check service ${service.name}: ${errorMessage}`);
-      
-      return {
+      this.logger.error(`Failed to check service ${service.name}: ${errorMessage}`, fields);
+
+      result = {
         serviceId: service.id,
         timestamp: Date.now(),
+        status: 'unknown',
         success: false,
         duration: 0,
-        error: errorMessage
+        error: errorMessage,
+        errorCode: 'CHECKER_ERROR',
+        addressFamily: family
       };
     }
+
+    return this.recordResult(service, result, stateFamily);
+  }
+
+  /**
+   * Updates the service state and annotates the result with the confirmed
+   * status. Down and up are only confirmed after `failureThreshold` and
+   * `recoveryThreshold` consecutive results, the first status of a new
+   * service included; while the service is flapping
+   * the confirmed status is held instead of toggling.
+   */
+  private recordResult(service: ServiceConfig, result: MonitoringResult, family?: IpFamily): MonitoringResult {
+    // Results for services removed mid-check are dropped
+    if (!this.services.has(result.serviceId)) return result;
+
+    const state = this.getServiceState(result.serviceId, family);
+    const label = family ? ` over ${family === 'ipv4' ? 'IPv4' : 'IPv6'}` : '';
+    const fields = { serviceId: service.id, addressFamily: family };
+    const previous = state.lastResult;
+    if (result.success) {
+      state.lastSuccessAt = result.timestamp;
+    } else {
+      state.lastFailureAt = result.timestamp;
+    }
+
+    // Checker errors say nothing about the service, so they neither confirm nor flap
+    if (result.status !== 'unknown') {
+      if (result.success) {
+        state.consecutiveSuccesses++;
+        state.consecutiveFailures = 0;
+      } else {
+        state.consecutiveFailures++;
+        state.consecutiveSuccesses = 0;
+      }
+
+      const windowMs = service.flapWindow ?? DEFAULT_FLAP_WINDOW_MS;
+      if (previous && previous.status !== 'unknown' && previous.success !== result.success) {
+        state.transitions.push(result.timestamp);
+      }
+      state.transitions = state.transitions.filter(at => at > result.timestamp - windowMs);
+
+      const wasFlapping = state.flapping;
+      state.flapping = state.transitions.length >= (service.flapThreshold ?? DEFAULT_FLAP_THRESHOLD);
+      if (state.flapping && !wasFlapping) {
+        this.logger.warn(`Service ${service.name}${label} is FLAPPING (${state.transitions.length} state changes in ${windowMs}ms)`, fields);
+      } else if (!state.flapping && wasFlapping) {
+        this.logger.info(`Service ${service.name}${label} stopped flapping`, fields);
+      }
+
+      const confirmed = state.confirmedStatus;
+      let next = confirmed;
+      if (confirmed === 'unknown') {
+        // The first status needs a full run too, so one dropped probe right after a start is not an outage
+        const run = result.success ? state.consecutiveSuccesses : state.consecutiveFailures;
+        const threshold = result.success ? service.recoveryThreshold : service.failureThreshold;
+        if (run >= (threshold ?? 1)) {
+          next = result.status;
+        }
+      } else if (state.flapping) {
+        next = confirmed;
+      } else if (result.success) {
+        if (confirmed !== 'down' || state.consecutiveSuccesses >= (service.recoveryThreshold ?? 1)) {
+          next = result.status;
+        }
+      } else if (confirmed === 'down' || state.consecutiveFailures >= (service.failureThreshold ?? 1)) {
+        next = 'down';
+      }
+
+      if (next !== confirmed && confirmed !== 'unknown') {
+        this.logger.info(`Service ${service.name}${label} confirmed ${next.toUpperCase()} (was ${confirmed.toUpperCase()})`, fields);
+      }
+      state.confirmedStatus = next;
+    }
+
+    state.lastResult = { ...result, confirmedStatus: state.confirmedStatus, flapping: state.flapping };
+    this.states.set(stateKey(result.serviceId, family), state);
+    return state.lastResult;
   }
 }
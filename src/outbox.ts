@@ -0,0 +1,223 @@
+import { readFile, mkdir } from 'fs/promises';
+import { existsSync } from 'fs';
+import { dirname } from 'path';
+import { Logger } from './utils/logger';
+import { AtomicFile } from './utils/atomic';
+import { OutboxDropPolicy } from './types';
+
+export interface OutboxOptions {
+  filePath: string;
+  maxSize: number;
+  dropPolicy: OutboxDropPolicy;
+  initialBackoffMs: number;
+  maxBackoffMs: number;
+}
+
+// Compact once the log holds this many lines and at least twice the pending items
+const COMPACT_MIN_LINES = 1000;
+
+interface OutboxEntry<T> {
+  seq: number;
+  item: T;
+}
+
+// One line of the on-disk log: an item was queued, or it left the queue
+type OutboxRecord<T> = { add: number; item: T } | { done: number };
+
+/**
+ * Thrown by a deliver callback when retrying can never succeed
+ * (e.g. the master rejected the payload), so the item is discarded.
+ */
+export class PermanentDeliveryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PermanentDeliveryError';
+  }
+}
+
+/**
+ * Durable FIFO of reports awaiting delivery. Changes are appended to a
+ * JSON-lines log, so queueing or delivering a report costs one short
+ * append; the log is rewritten without settled entries once it has
+ * grown well past the number of pending items.
+ */
+export class Outbox<T> {
+  private options: OutboxOptions;
+  private deliver: (item: T) => Promise<void>;
+  private logger: Logger;
+  private entries: OutboxEntry<T>[] = [];
+  private nextSeq = 1;
+  private logLines = 0;
+  private failures = 0;
+  private flushing = false;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private file: AtomicFile;
+
+  constructor(options: OutboxOptions, deliver: (item: T) => Promise<void>, instanceId: string) {
+    this.options = options;
+    this.deliver = deliver;
+    this.file = new AtomicFile(options.filePath);
+    this.logger = new Logger('OUTBOX', instanceId);
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  async initialize(): Promise<void> {
+    await mkdir(dirname(this.options.filePath), { recursive: true });
+
+    if (existsSync(this.options.filePath)) {
+      try {
+        this.entries = this.parse(await readFile(this.options.filePath, 'utf-8'));
+        this.nextSeq = this.entries.reduce((max, entry) => Math.max(max, entry.seq), 0) + 1;
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        this.logger.error(`Failed to read outbox, starting empty: ${errorMessage}`);
+        this.entries = [];
+      }
+      await this.compact();
+    }
+
+    if (this.entries.length > 0) {
+      this.logger.info(`📬 Replaying ${this.entries.length} pending reports`);
+      this.scheduleFlush(0);
+    }
+  }
+
+  async enqueue(item: T): Promise<void> {
+    const records: OutboxRecord<T>[] = [];
+    if (this.entries.length >= this.options.maxSize) {
+      if (this.options.dropPolicy === 'drop-newest') {
+        this.logger.warn(`Outbox full (${this.options.maxSize}), dropping newest report`);
+        return;
+      }
+      const dropped = this.entries.shift()!;
+      records.push({ done: dropped.seq });
+      this.logger.warn(`Outbox full (${this.options.maxSize}), dropping oldest report`);
+    }
+
+    const entry = { seq: this.nextSeq++, item };
+    this.entries.push(entry);
+    records.push({ add: entry.seq, item });
+    await this.record(records);
+    this.scheduleFlush(this.currentBackoff());
+  }
+
+  stop() {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  async flush(): Promise<void> {
+    if (this.flushing || this.entries.length === 0) return;
+    this.flushing = true;
+    this.stop();
+
+    try {
+      while (this.entries.length > 0) {
+        const entry = this.entries[0];
+        try {
+          await this.deliver(entry.item);
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          if (!(error instanceof PermanentDeliveryError)) {
+            this.failures++;
+            const delay = this.currentBackoff();
+            this.logger.warn(`Replay failed (${this.entries.length} pending), retrying in ${delay}ms: ${errorMessage}`);
+            this.scheduleFlush(delay);
+            return;
+          }
+          this.logger.error(`Discarding undeliverable report: ${errorMessage}`);
+        }
+
+        // Only drop the head if it is still the item we just handled
+        if (this.entries[0] === entry) {
+          this.entries.shift();
+        }
+        this.failures = 0;
+        await this.record([{ done: entry.seq }]);
+      }
+      await this.compact();
+      this.logger.info('📭 Outbox drained');
+    } finally {
+      this.flushing = false;
+    }
+  }
+
+  private currentBackoff(): number {
+    return Math.min(
+      this.options.maxBackoffMs,
+      this.options.initialBackoffMs * Math.pow(2, this.failures)
+    );
+  }
+
+  private scheduleFlush(delay: number) {
+    if (this.retryTimer) return;
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.flush().catch((error: unknown) => {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        this.logger.error(`Outbox flush failed: ${errorMessage}`);
+      });
+    }, delay);
+  }
+
+  /**
+   * Rebuilds the queue from the log. A torn last line from a crash is
+   * skipped; files from before the log format hold a plain JSON array.
+   */
+  private parse(content: string): OutboxEntry<T>[] {
+    if (content.trimStart().startsWith('[')) {
+      const items: T[] = JSON.parse(content);
+      return Array.isArray(items) ? items.map((item, index) => ({ seq: index + 1, item })) : [];
+    }
+
+    // Map keeps first-insertion order, so re-added entries stay in place
+    const pending = new Map<number, T>();
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        const record: OutboxRecord<T> = JSON.parse(line);
+        if ('add' in record) {
+          pending.set(record.add, record.item);
+        } else {
+          pending.delete(record.done);
+        }
+      } catch {
+        this.logger.warn('Skipping unreadable outbox log line');
+      }
+    }
+    return Array.from(pending, ([seq, item]) => ({ seq, item }));
+  }
+
+  private async record(records: OutboxRecord<T>[]): Promise<void> {
+    this.logLines += records.length;
+    if (this.logLines >= COMPACT_MIN_LINES && this.logLines >= this.entries.length * 2) {
+      await this.compact();
+      return;
+    }
+    try {
+      await this.file.append(records.map(record => `${JSON.stringify(record)}\n`).join(''));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.logger.error(`Failed to persist outbox: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Rewrites the log with only the pending items.
+   */
+  private async compact(): Promise<void> {
+    const content = this.entries.map(entry => `${JSON.stringify({ add: entry.seq, item: entry.item })}\n`).join('');
+    this.logLines = this.entries.length;
+    try {
+      await this.file.write(content);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.logger.error(`Failed to compact outbox: ${errorMessage}`);
+    }
+  }
+}
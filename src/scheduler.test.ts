@@ -0,0 +1,187 @@
+import { beforeAll, describe, expect, test } from 'bun:test';
+import { Clock, Scheduler } from './scheduler';
+import { configureLogging } from './utils/logger';
+
+interface FakeTimer {
+  at: number;
+  callback: () => void;
+}
+
+/**
+ * Clock whose time only moves through advance(), firing due timers in order.
+ */
+class FakeClock implements Clock {
+  private time = 0;
+  private timers = new Set<FakeTimer>();
+
+  now(): number {
+    return this.time;
+  }
+
+  setTimeout(callback: () => void, ms: number): unknown {
+    const timer = { at: this.time + ms, callback };
+    this.timers.add(timer);
+    return timer;
+  }
+
+  clearTimeout(handle: unknown) {
+    this.timers.delete(handle as FakeTimer);
+  }
+
+  async advance(ms: number) {
+    const target = this.time + ms;
+    for (;;) {
+      const due = Array.from(this.timers)
+        .filter(timer => timer.at <= target)
+        .sort((a, b) => a.at - b.at)[0];
+      if (!due) break;
+      this.timers.delete(due);
+      this.time = due.at;
+      due.callback();
+      await settle();
+    }
+    this.time = target;
+  }
+}
+
+// Lets job promises and their finally handlers run
+const settle = () => new Promise(resolve => setImmediate(resolve));
+
+function createScheduler(maxConcurrent = 10) {
+  const clock = new FakeClock();
+  const scheduler = new Scheduler({ maxConcurrent, clock, random: () => 0 }, 'test');
+  return { clock, scheduler };
+}
+
+beforeAll(() => {
+  configureLogging({ file: false, level: 'error' });
+});
+
+describe('Scheduler', () => {
+  test('runs a job once per interval', async () => {
+    const { clock, scheduler } = createScheduler();
+    const runs: number[] = [];
+    scheduler.schedule('a', 5000, async () => {
+      runs.push(clock.now());
+    });
+
+    expect(scheduler.nextRunAt('a')).toBe(5000);
+    await clock.advance(4999);
+    expect(runs).toEqual([]);
+    await clock.advance(10001);
+    expect(runs).toEqual([5000, 10000, 15000]);
+    scheduler.stop();
+  });
+
+  test('runs immediately when asked to', async () => {
+    const { clock, scheduler } = createScheduler();
+    const runs: number[] = [];
+    scheduler.schedule('a', 5000, async () => {
+      runs.push(clock.now());
+    }, { immediate: true });
+
+    await settle();
+    expect(runs).toEqual([0]);
+    scheduler.stop();
+  });
+
+  test('delays the first run by the jitter offset', async () => {
+    const clock = new FakeClock();
+    const scheduler = new Scheduler({ maxConcurrent: 1, clock, jitterRatio: 0.1, random: () => 0.5 }, 'test');
+    scheduler.schedule('a', 10000, async () => {});
+
+    expect(scheduler.nextRunAt('a')).toBe(10500);
+    scheduler.stop();
+  });
+
+  test('clamps intervals below the minimum', async () => {
+    const { clock, scheduler } = createScheduler();
+    let runs = 0;
+    scheduler.schedule('a', 0, async () => {
+      runs++;
+    });
+
+    await clock.advance(3000);
+    expect(runs).toBe(3);
+    scheduler.stop();
+  });
+
+  test('skips ticks while the previous run is still in progress', async () => {
+    const { clock, scheduler } = createScheduler();
+    let runs = 0;
+    let finish = () => {};
+    scheduler.schedule('a', 1000, () => {
+      runs++;
+      return new Promise<void>(resolve => {
+        finish = resolve;
+      });
+    });
+
+    await clock.advance(3500);
+    expect(runs).toBe(1);
+    expect(scheduler.activeCount).toBe(1);
+
+    finish();
+    await settle();
+    await clock.advance(1000);
+    expect(runs).toBe(2);
+    scheduler.stop();
+  });
+
+  test('caps concurrent runs and queues the rest', async () => {
+    const { clock, scheduler } = createScheduler(1);
+    const finishers: Array<() => void> = [];
+    for (const id of ['a', 'b', 'c']) {
+      scheduler.schedule(id, 1000, () => new Promise<void>(resolve => {
+        finishers.push(resolve);
+      }));
+    }
+
+    await clock.advance(1000);
+    expect(scheduler.activeCount).toBe(1);
+    expect(scheduler.queueDepth).toBe(2);
+
+    finishers.shift()!();
+    await settle();
+    expect(scheduler.activeCount).toBe(1);
+    expect(scheduler.queueDepth).toBe(1);
+    scheduler.stop();
+  });
+
+  test('stops running a job once unscheduled', async () => {
+    const { clock, scheduler } = createScheduler();
+    let runs = 0;
+    scheduler.schedule('a', 1000, async () => {
+      runs++;
+    });
+
+    await clock.advance(1000);
+    scheduler.unschedule('a');
+    await clock.advance(5000);
+    expect(runs).toBe(1);
+    expect(scheduler.has('a')).toBe(false);
+  });
+
+  test('waitForIdle resolves false when the timeout passes first', async () => {
+    const { clock, scheduler } = createScheduler();
+    scheduler.schedule('a', 1000, () => new Promise<void>(() => {}), { immediate: true });
+
+    const idle = scheduler.waitForIdle(2000);
+    await clock.advance(2000);
+    expect(await idle).toBe(false);
+    scheduler.stop();
+  });
+
+  test('waitForIdle resolves true once running jobs finish', async () => {
+    const { scheduler } = createScheduler();
+    let finish = () => {};
+    scheduler.schedule('a', 1000, () => new Promise<void>(resolve => {
+      finish = resolve;
+    }), { immediate: true });
+
+    const idle = scheduler.waitForIdle(2000);
+    finish();
+    expect(await idle).toBe(true);
+    scheduler.stop();
+  });
+});
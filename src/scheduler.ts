@@ -0,0 +1,198 @@
+import { Logger } from './utils/logger';
+
+export interface Clock {
+  now(): number;
+  setTimeout(callback: () => void, ms: number): unknown;
+  clearTimeout(handle: unknown): void;
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: handle => clearTimeout(handle as ReturnType<typeof setTimeout>)
+};
+
+// Floor for job intervals, so a bad config synced from the master cannot spin a check
+const MIN_INTERVAL_MS = 1000;
+
+export interface SchedulerOptions {
+  maxConcurrent: number;
+  // Fraction of the interval used as the maximum random phase offset
+  jitterRatio?: number;
+  clock?: Clock;
+  random?: () => number;
+}
+
+interface ScheduleOptions {
+  immediate?: boolean;
+}
+
+interface Job {
+  id: string;
+  intervalMs: number;
+  run: () => Promise<void>;
+  nextRunAt: number;
+  timer: unknown;
+  running: boolean;
+  queued: boolean;
+}
+
+/**
+ * Runs jobs at fixed millisecond intervals with a global concurrency cap.
+ * A tick that arrives while the job is still queued or running is skipped.
+ */
+export class Scheduler {
+  private jobs: Map<string, Job> = new Map();
+  private queue: Job[] = [];
+  private running = 0;
+  private maxConcurrent: number;
+  private jitterRatio: number;
+  private clock: Clock;
+  private random: () => number;
+  private idleWaiters: Array<() => void> = [];
+  private logger: Logger;
+
+  constructor(options: SchedulerOptions, instanceId: string) {
+    this.maxConcurrent = Math.max(1, options.maxConcurrent);
+    this.jitterRatio = options.jitterRatio ?? 0.1;
+    this.clock = options.clock || systemClock;
+    this.random = options.random || Math.random;
+    this.logger = new Logger('SCHEDULER', instanceId);
+  }
+
+  get queueDepth(): number {
+    return this.queue.length;
+  }
+
+  get activeCount(): number {
+    return this.running;
+  }
+
+  has(id: string): boolean {
+    return this.jobs.has(id);
+  }
+
+  nextRunAt(id: string): number | null {
+    return this.jobs.get(id)?.nextRunAt ?? null;
+  }
+
+  schedule(id: string, intervalMs: number, run: () => Promise<void>, options: ScheduleOptions = {}) {
+    this.unschedule(id);
+
+    const interval = Math.max(MIN_INTERVAL_MS, intervalMs);
+    const jitter = Math.floor(this.random() * interval * this.jitterRatio);
+    const job: Job = {
+      id,
+      intervalMs: interval,
+      run,
+      nextRunAt: this.clock.now() + interval + jitter,
+      timer: null,
+      running: false,
+      queued: false
+    };
+
+    this.jobs.set(id, job);
+    if (options.immediate) {
+      this.enqueue(job);
+    }
+    this.arm(job);
+  }
+
+  unschedule(id: string) {
+    const job = this.jobs.get(id);
+    if (!job) return;
+
+    this.clock.clearTimeout(job.timer);
+    this.jobs.delete(id);
+    if (job.queued) {
+      this.queue = this.queue.filter(queued => queued !== job);
+      job.queued = false;
+    }
+  }
+
+  stop() {
+    for (const id of Array.from(this.jobs.keys())) {
+      this.unschedule(id);
+    }
+  }
+
+  /**
+   * Resolves true once no job is running or queued, or false if
+   * `timeoutMs` passes first.
+   */
+  waitForIdle(timeoutMs: number): Promise<boolean> {
+    if (this.running === 0 && this.queue.length === 0) {
+      return Promise.resolve(true);
+    }
+
+    return new Promise(resolve => {
+      const timer = this.clock.setTimeout(() => {
+        this.idleWaiters = this.idleWaiters.filter(waiter => waiter !== onIdle);
+        resolve(false);
+      }, timeoutMs);
+      const onIdle = () => {
+        this.clock.clearTimeout(timer);
+        resolve(true);
+      };
+      this.idleWaiters.push(onIdle);
+    });
+  }
+
+  private arm(job: Job) {
+    const delay = Math.max(0, job.nextRunAt - this.clock.now());
+    job.timer = this.clock.setTimeout(() => this.tick(job), delay);
+  }
+
+  private tick(job: Job) {
+    if (this.jobs.get(job.id) !== job) return;
+
+    if (job.running || job.queued) {
+      this.logger.warn(`Skipping tick for ${job.id}: previous check still in progress`);
+    } else {
+      this.enqueue(job);
+    }
+
+    // Advance on the original phase; if we fell behind, restart from now
+    job.nextRunAt += job.intervalMs;
+    const now = this.clock.now();
+    if (job.nextRunAt <= now) {
+      job.nextRunAt = now + job.intervalMs;
+    }
+    this.arm(job);
+  }
+
+  private enqueue(job: Job) {
+    job.queued = true;
+    this.queue.push(job);
+    this.drain();
+  }
+
+  private drain() {
+    while (this.running < this.maxConcurrent && this.queue.length > 0) {
+      const job = this.queue.shift()!;
+      job.queued = false;
+      job.running = true;
+      this.running++;
+
+      job.run()
+        .catch((error: unknown) => {
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          this.logger.error(`Job ${job.id} failed: ${errorMessage}`);
+        })
+        .finally(() => {
+          job.running = false;
+          this.running--;
+          this.drain();
+          if (this.running === 0 && this.queue.length === 0) {
+            this.notifyIdle();
+          }
+        });
+    }
+  }
+
+  private notifyIdle() {
+    const waiters = this.idleWaiters;
+    this.idleWaiters = [];
+    waiters.forEach(waiter => waiter());
+  }
+}
@@ -0,0 +1,186 @@
+import { t, Static } from 'elysia';
+import { isResolverAddress } from './utils/dns';
+
+export const httpAssertionSchema = t.Union([
+  t.Object({
+    type: t.Literal('status'),
+    codes: t.Array(t.Union([t.Number(), t.String()]))
+  }),
+  t.Object({ type: t.Literal('bodyContains'), value: t.String() }),
+  t.Object({ type: t.Literal('bodyRegex'), pattern: t.String(), flags: t.Optional(t.String()) }),
+  t.Object({ type: t.Literal('jsonPath'), path: t.String(), equals: t.Any() }),
+  t.Object({ type: t.Literal('header'), name: t.String(), value: t.Optional(t.String()) }),
+  t.Object({ type: t.Literal('responseTime'), maxMs: t.Number() })
+]);
+
+export const httpRequestSchema = {
+  method: t.Optional(t.Union([
+    t.Literal('GET'),
+    t.Literal('HEAD'),
+    t.Literal('POST'),
+    t.Literal('PUT'),
+    t.Literal('PATCH'),
+    t.Literal('DELETE'),
+    t.Literal('OPTIONS')
+  ])),
+  headers: t.Optional(t.Record(t.String(), t.String())),
+  body: t.Optional(t.Union([
+    t.Object({ type: t.Literal('raw'), content: t.String(), contentType: t.Optional(t.String()) }),
+    t.Object({ type: t.Literal('json'), content: t.Any() })
+  ])),
+  auth: t.Optional(t.Union([
+    t.Object({ type: t.Literal('basic'), username: t.String(), password: t.String() }),
+    t.Object({ type: t.Literal('bearer'), token: t.String() })
+  ])),
+  redirect: t.Optional(t.Object({
+    follow: t.Boolean(),
+    maxRedirects: t.Optional(t.Number({ minimum: 0 }))
+  })),
+  ignoreTlsErrors: t.Optional(t.Boolean())
+};
+
+export const retryPolicySchema = t.Object({
+  attempts: t.Optional(t.Integer({ minimum: 1, maximum: 10 })),
+  delayMs: t.Optional(t.Number({ minimum: 0 })),
+  backoff: t.Optional(t.Union([
+    t.Literal('fixed'),
+    t.Literal('linear'),
+    t.Literal('exponential')
+  ])),
+  maxDelayMs: t.Optional(t.Number({ minimum: 0 })),
+  jitter: t.Optional(t.Number({ minimum: 0, maximum: 1 })),
+  retryOn: t.Optional(t.Array(t.Union([
+    t.Literal('timeout'),
+    t.Literal('connection'),
+    t.Literal('dns'),
+    t.Literal('tls'),
+    t.Literal('certificate'),
+    t.Literal('http'),
+    t.Literal('assertion'),
+    t.Literal('permission'),
+    t.Literal('config'),
+    t.Literal('other')
+  ])))
+});
+
+export const serviceSchema = t.Object({
+  id: t.String(),
+  name: t.String(),
+  type: t.Union([
+    t.Literal('http'),
+    t.Literal('icmp'),
+    t.Literal('tcp'),
+    t.Literal('dns'),
+    t.Literal('tls')
+  ]),
+  interval: t.Number({ minimum: 1000 }),
+  timeout: t.Number(),
+  addressFamily: t.Optional(t.Union([
+    t.Literal('auto'),
+    t.Literal('ipv4'),
+    t.Literal('ipv6'),
+    t.Literal('both')
+  ])),
+  sourceAddress: t.Optional(t.String()),
+  degradedLatency: t.Optional(t.Number({ minimum: 0 })),
+  downLatency: t.Optional(t.Number({ minimum: 0 })),
+  failureThreshold: t.Optional(t.Integer({ minimum: 1, maximum: 100 })),
+  recoveryThreshold: t.Optional(t.Integer({ minimum: 1, maximum: 100 })),
+  flapWindow: t.Optional(t.Number({ minimum: 1000 })),
+  flapThreshold: t.Optional(t.Integer({ minimum: 2 })),
+  retry: t.Optional(retryPolicySchema),
+  url: t.Optional(t.String()),
+  host: t.Optional(t.String()),
+  port: t.Optional(t.Integer({ minimum: 1, maximum: 65535 })),
+  packetCount: t.Optional(t.Integer({ minimum: 1, maximum: 100 })),
+  packetInterval: t.Optional(t.Number({ minimum: 200 })),
+  degradedPacketLoss: t.Optional(t.Number({ minimum: 0, maximum: 100 })),
+  payload: t.Optional(t.String()),
+  expect: t.Optional(t.String()),
+  hostname: t.Optional(t.String()),
+  recordType: t.Optional(t.Union([
+    t.Literal('A'),
+    t.Literal('AAAA'),
+    t.Literal('CNAME'),
+    t.Literal('MX'),
+    t.Literal('TXT'),
+    t.Literal('NS'),
+    t.Literal('SRV')
+  ])),
+  resolver: t.Optional(t.String()),
+  expected: t.Optional(t.Array(t.String())),
+  servername: t.Optional(t.String()),
+  expiryWarningDays: t.Optional(t.Number({ minimum: 0 })),
+  expiryCriticalDays: t.Optional(t.Number({ minimum: 0 })),
+  allowUntrusted: t.Optional(t.Boolean()),
+  ...httpRequestSchema,
+  assertions: t.Optional(t.Array(httpAssertionSchema))
+});
+
+export const serviceUpdateSchema = t.Omit(serviceSchema, ['id']);
+
+export const servicePatchSchema = t.Partial(serviceUpdateSchema);
+
+// Restricts history to the results of one address family; dual-stack services only
+const familyQuerySchema = t.Optional(t.Union([
+  t.Literal('ipv4'),
+  t.Literal('ipv6')
+]));
+
+export const resultsQuerySchema = t.Object({
+  limit: t.Optional(t.Numeric({ minimum: 1, maximum: 10000 })),
+  family: familyQuerySchema
+});
+
+// Unix milliseconds; defaults to the last 24 hours
+export const timeRangeQuerySchema = t.Object({
+  from: t.Optional(t.Numeric({ minimum: 0 })),
+  to: t.Optional(t.Numeric({ minimum: 0 })),
+  family: familyQuerySchema
+});
+
+export type ServiceBody = Static<typeof serviceSchema>;
+
+/**
+ * Keeps only the fields of a service config, dropping anything else
+ * the sender attached (e.g. status fields in the master's service list).
+ */
+export function pickServiceConfig(service: object): ServiceBody {
+  const source = service as Record<string, unknown>;
+  const picked: Record<string, unknown> = {};
+  for (const key of Object.keys(serviceSchema.properties)) {
+    if (source[key] !== undefined) {
+      picked[key] = source[key];
+    }
+  }
+  return picked as ServiceBody;
+}
+
+/**
+ * Checks the per-type fields the flat schema cannot express.
+ * Returns an error message, or null when the config is usable.
+ */
+export function validateServiceConfig(service: ServiceBody): string | null {
+  if (service.type === 'http' && !service.url) {
+    return 'URL is required for HTTP services';
+  }
+  if (service.type === 'icmp' && !service.host) {
+    return 'Host is required for ICMP services';
+  }
+  if (service.type === 'tcp' && (!service.host || service.port === undefined)) {
+    return 'Host and port are required for TCP services';
+  }
+  if (service.type === 'dns' && (!service.hostname || !service.recordType)) {
+    return 'Hostname and record type are required for DNS services';
+  }
+  if (service.type === 'dns' && service.resolver !== undefined && !isResolverAddress(service.resolver)) {
+    return 'resolver must be an IP address, optionally with a port';
+  }
+  if (service.type === 'tls' && !service.host) {
+    return 'Host is required for TLS services';
+  }
+  if (service.degradedLatency !== undefined && service.downLatency !== undefined && service.downLatency <= service.degradedLatency) {
+    return 'downLatency must be greater than degradedLatency';
+  }
+  return null;
+}
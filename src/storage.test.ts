@@ -0,0 +1,136 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Storage, STORAGE_SCHEMA_VERSION } from './storage';
+import { configureLogging } from './utils/logger';
+
+let workDir: string;
+
+const statePath = () => join(workDir, 'monitor-state.json');
+
+function writeState(state: unknown) {
+  writeFileSync(statePath(), typeof state === 'string' ? state : JSON.stringify(state));
+}
+
+async function load() {
+  const storage = new Storage(workDir);
+  await storage.initialize();
+  return storage.load();
+}
+
+const backups = () => readdirSync(workDir).filter(name => name.startsWith('monitor-state.json.corrupt-'));
+
+const serviceStatus = {
+  id: 'api',
+  name: 'API',
+  type: 'http',
+  url: 'https://example.test',
+  interval: 60000,
+  timeout: 5000,
+  createdAt: 1,
+  lastCheck: 2,
+  lastStatus: true,
+  uptimePercentage: 99,
+  assignedSlaves: ['s1']
+};
+
+beforeAll(() => {
+  configureLogging({ file: false, level: 'error' });
+});
+
+beforeEach(() => {
+  workDir = mkdtempSync(join(tmpdir(), 'storage-test-'));
+});
+
+afterEach(() => {
+  rmSync(workDir, { recursive: true, force: true });
+});
+
+describe('Storage migrations', () => {
+  test('migrates a file in the old StateStorage shape', async () => {
+    writeState({
+      services: { api: serviceStatus },
+      slaves: { s1: { name: 'Slave 1', lastSeen: 1234, services: ['api'] } }
+    });
+
+    const state = await load();
+
+    expect(state.version).toBe(STORAGE_SCHEMA_VERSION);
+    expect(state.services.configs).toEqual([]);
+    expect(state.services.status).toHaveLength(1);
+    expect(state.services.status[0]).toMatchObject({
+      id: 'api',
+      uptimePercentage: 99,
+      uptimePercentage30d: 100,
+      downtimePeriods: [],
+      lastDowntime: null,
+      degradedPercentage: 0,
+      degradedPeriods: []
+    });
+    expect(state.slaves).toEqual([
+      { id: 's1', name: 'Slave 1', lastHeartbeat: 1234, isActive: false, services: ['api'] }
+    ]);
+    expect(backups()).toEqual([]);
+  });
+
+  test('migrates an unversioned file', async () => {
+    const config = { id: 'api', name: 'API', type: 'http', url: 'https://example.test', interval: 60000, timeout: 5000 };
+    writeState({
+      services: { configs: [config], status: [serviceStatus] },
+      slaves: [],
+      lastUpdated: 1
+    });
+
+    const state = await load();
+
+    expect(state.version).toBe(STORAGE_SCHEMA_VERSION);
+    expect(state.services.configs).toEqual([config] as typeof state.services.configs);
+    expect(state.services.status[0]).toMatchObject({ id: 'api', uptimePercentage30d: 100, degradedPercentage30d: 0 });
+  });
+
+  test('writes a migrated state back on the next save', async () => {
+    writeState({ services: { api: serviceStatus }, slaves: {} });
+    const storage = new Storage(workDir);
+    await storage.initialize();
+
+    await storage.save();
+
+    expect(JSON.parse(readFileSync(statePath(), 'utf-8')).version).toBe(STORAGE_SCHEMA_VERSION);
+  });
+});
+
+describe('Storage with unusable files', () => {
+  test('backs up a file that is not valid JSON and starts empty', async () => {
+    writeState('{"services": {');
+
+    const state = await load();
+
+    expect(state.services.configs).toEqual([]);
+    expect(state.services.status).toEqual([]);
+    expect(backups()).toHaveLength(1);
+    expect(readFileSync(join(workDir, backups()[0]), 'utf-8')).toBe('{"services": {');
+    expect(JSON.parse(readFileSync(statePath(), 'utf-8')).version).toBe(STORAGE_SCHEMA_VERSION);
+  });
+
+  test('backs up a file that fails validation', async () => {
+    writeState({
+      version: STORAGE_SCHEMA_VERSION,
+      services: { configs: [{ name: 'no id' }], status: [] },
+      slaves: [],
+      lastUpdated: 1
+    });
+
+    expect((await load()).services.configs).toEqual([]);
+    expect(backups()).toHaveLength(1);
+  });
+
+  test('refuses a file written by a newer version and leaves it untouched', async () => {
+    const newer = JSON.stringify({ version: STORAGE_SCHEMA_VERSION + 1, services: { configs: [], status: [] }, slaves: [] });
+    writeState(newer);
+
+    await expect(load()).rejects.toThrow(`State file version ${STORAGE_SCHEMA_VERSION + 1} is newer than supported`);
+    expect(readFileSync(statePath(), 'utf-8')).toBe(newer);
+    expect(backups()).toEqual([]);
+  });
+});
@@ -1,32 +1,131 @@
-import { writeFile, readFile, mkdir } from 'fs/promises';
+import { readFile, mkdir, copyFile } from 'fs/promises';
 import { existsSync } from 'fs';
 import { join } from 'path';
-import { ServiceConfig, ServiceStatus, SlaveStatus } from './types';
+import { DowntimePeriod, ServiceConfig, ServiceStatus, SlaveStatus, StorageData } from './types';
+import { Logger } from './utils/logger';
+import { AtomicFile } from './utils/atomic';
 
+export const STORAGE_SCHEMA_VERSION = 3;
+
+// Shape written by the old StateStorage class (schema version 0)
 interface StoredState {
   services: { [key: string]: ServiceStatus };
-  slaves: { 
-    [key: string]: { 
-      name: string; 
-      lastSeen: number; 
+  slaves: {
+    [key: string]: {
+      name: string;
+      lastSeen: number;
       services: string[];
     }
   };
 }
 
-interface StorageData {
-  services: {
-    configs: ServiceConfig[];
-    status: ServiceStatus[];
-  };
-  slaves: SlaveStatus[];
-  lastUpdated: number;
+type RawState = Record<string, unknown>;
+
+function isRecord(value: unknown): value is RawState {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
 }
 
-export class Storage {
-  private dataPath: string;
-  private initialized: boolean = false;
-  private data: StorageData = {
+// Entries that are not objects become empty ones, which validation then rejects for lacking an id
+function recordOf(value: unknown): RawState {
+  return isRecord(value) ? value : {};
+}
+
+// Missing lists default to empty; anything else that is not a list fails the migration
+function listOf(value: unknown, name: string): unknown[] {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) throw new Error(`${name} is not a list`);
+  return value;
+}
+
+/**
+ * Upgrades a state file one version at a time; the key is the version
+ * the migration starts from.
+ */
+const MIGRATIONS: Record<number, (state: RawState) => RawState> = {
+  // StateStorage maps keyed by id -> Storage arrays
+  0: state => ({
+    services: {
+      configs: [],
+      status: Object.values(recordOf(state.services))
+    },
+    slaves: Object.entries(recordOf(state.slaves)).map(([id, value]) => {
+      const slave = recordOf(value);
+      return {
+        id,
+        name: slave.name,
+        lastHeartbeat: slave.lastSeen,
+        isActive: false,
+        services: listOf(slave.services, `slaves.${id}.services`)
+      };
+    }),
+    lastUpdated: Date.now()
+  }),
+  // Unversioned Storage file: add the version and fill fields older writers left out
+  1: state => {
+    const services = recordOf(state.services);
+    return {
+      ...state,
+      version: 2,
+      services: {
+        configs: listOf(services.configs, 'services.configs'),
+        status: listOf(services.status, 'services.status').map(value => {
+          const status = recordOf(value);
+          return {
+            ...status,
+            downtimePeriods: status.downtimePeriods || [],
+            uptimePercentage30d: status.uptimePercentage30d ?? 100,
+            lastDowntime: status.lastDowntime ?? null
+          };
+        })
+      },
+      slaves: listOf(state.slaves, 'slaves')
+    };
+  },
+  // Degraded time tracked separately from downtime
+  2: state => {
+    const services = recordOf(state.services);
+    return {
+      ...state,
+      version: 3,
+      services: {
+        ...services,
+        status: listOf(services.status, 'services.status').map(status => ({
+          ...recordOf(status),
+          degradedPercentage: 0,
+          degradedPercentage30d: 0,
+          degradedPeriods: []
+        }))
+      }
+    };
+  }
+};
+
+function detectVersion(state: RawState): number {
+  if (typeof state.version === 'number') return state.version;
+  return Array.isArray(recordOf(state.services).configs) ? 1 : 0;
+}
+
+function hasIds(value: unknown): boolean {
+  return Array.isArray(value) && value.every((item: unknown) => isRecord(item) && typeof item.id === 'string');
+}
+
+/**
+ * Returns the reason the state does not match the current schema, or null.
+ */
+function validateState(state: unknown): string | null {
+  if (!isRecord(state)) return 'not a JSON object';
+  if (state.version !== STORAGE_SCHEMA_VERSION) return `unexpected version ${state.version}`;
+  if (!isRecord(state.services)) return 'missing services';
+  if (!hasIds(state.services.configs)) return 'services.configs must be a list of objects with an id';
+  if (!hasIds(state.services.status)) return 'services.status must be a list of objects with an id';
+  if (!hasIds(state.slaves)) return 'slaves must be a list of objects with an id';
+  if (typeof state.lastUpdated !== 'number') return 'missing lastUpdated';
+  return null;
+}
+
+function emptyState(): StorageData {
+  return {
+    version: STORAGE_SCHEMA_VERSION,
     services: {
       configs: [],
       status: []
@@ -34,15 +133,30 @@ export class Storage {
     slaves: [],
     lastUpdated: Date.now()
   };
+}
+
+/**
+ * Persists monitor state. The in-memory copy is the single source of
+ * truth: mutations apply to it synchronously and saves write snapshots
+ * of it atomically (temp file + rename), one at a time.
+ */
+export class Storage {
+  private dataPath: string;
+  private initialized: boolean = false;
+  private data: StorageData = emptyState();
   private saveTimeout: ReturnType<typeof setTimeout> | null = null;
   private saveDebounceMs = 5000; // 5 seconds
+  private file: AtomicFile;
+  private logger: Logger;
 
   private log(message: string) {
-    console.log(`[STORAGE] ${message}`);
+    this.logger.info(message);
   }
 
   constructor(storagePath: string = './data') {
     this.dataPath = storagePath;
+    this.file = new AtomicFile(this.filePath);
+    this.logger = new Logger('STORAGE', 'storage');
   }
 
   private get filePath(): string {
@@ -55,18 +169,8 @@ export class Storage {
     }
   }
 
-  private initializeEmptyState(): StorageData {
-    return {
-      services: {
-        configs: [],
-        status: []
-      },
-      slaves: [],
-      lastUpdated: Date.now()
-    };
-  }
-
   async initialize(): Promise<void> {
+    if (this.initialized) return;
     try {
       // Create data directory if it doesn't exist
       if (!existsSync(this.dataPath)) {
@@ -76,21 +180,10 @@ export class Storage {
 
       // Try to load existing data
       if (existsSync(this.filePath)) {
-        const fileContent = await readFile(this.filePath, 'utf-8');
-        try {
-          const loadedData = JSON.parse(fileContent);
-          // Ensure the loaded data has the correct structure
-          this.data = {
-            ...this.initializeEmptyState(),
-            ...loadedData
-          };
-          this.log(`📥 Loaded existing monitor state: ${this.data.services.configs.length} services, ${this.data.services.status.length} status, ${this.data.slaves.length} slaves`);
-        } catch (parseError) {
-          console.warn('⚠️  Failed to parse existing state file, creating new one');
-          // Don't save here, will save after initialization
-        }
+        this.data = await this.readState();
+        this.log(`📥 Loaded existing monitor state: ${this.data.services.configs.length} services, ${this.data.services.status.length} status, ${this.data.slaves.length} slaves`);
       } else {
-        this.data = this.initializeEmptyState();
+        this.data = emptyState();
       }
 
       // Mark as initialized before first save
@@ -102,61 +195,122 @@ export class Storage {
         this.log('📝 Created new monitor state file');
       }
     } catch (error) {
-      console.error('❌ Failed to initialize storage:', error);
+      this.logger.error(`❌ Failed to initialize storage: ${error instanceof Error ? error.message : String(error)}`);
       throw error;
     }
   }
 
-  async loadState(): Promise<StorageData | null> {
+  /**
+   * Reads, migrates and validates the state file. A file that cannot be
+   * parsed or does not match the schema is copied aside and replaced
+   * with an empty state rather than silently overwritten.
+   */
+  private async readState(): Promise<StorageData> {
+    const content = await readFile(this.filePath, 'utf-8');
+    const parsed = this.parseState(content);
+    if (typeof parsed !== 'string') {
+      return parsed;
+    }
+
+    const backupPath = `${this.filePath}.corrupt-${Date.now()}`;
+    await copyFile(this.filePath, backupPath);
+    this.logger.warn(`⚠️ Monitor state file is invalid (${parsed}), backed up to ${backupPath} and starting empty`);
+
+    const state = emptyState();
+    await this.writeState(state);
+    return state;
+  }
+
+  /**
+   * Returns the migrated state, or the reason it cannot be used.
+   */
+  private parseState(content: string): StorageData | string {
+    let parsed: unknown;
     try {
-      const content = await readFile(this.filePath, 'utf-8');
-      const state = JSON.parse(content);
-      return {
-        ...this.initializeEmptyState(),
-        ...state
-      };
+      parsed = JSON.parse(content);
     } catch (error) {
-      if (error instanceof Error && 'code' in error && error.code === 'ENOENT') {
-        // File doesn't exist yet, return empty state
-        return this.initializeEmptyState();
+      return error instanceof Error ? error.message : String(error);
+    }
+    if (!isRecord(parsed)) {
+      return 'not a JSON object';
+    }
+    let state = parsed;
+
+    let version = detectVersion(state);
+    if (version > STORAGE_SCHEMA_VERSION) {
+      // Never clobber a file written by a newer release
+      throw new Error(`State file version ${version} is newer than supported version ${STORAGE_SCHEMA_VERSION}`);
+    }
+
+    try {
+      while (version < STORAGE_SCHEMA_VERSION) {
+        state = MIGRATIONS[version](state);
+        version = detectVersion(state);
+        this.log(`🔧 Migrated monitor state to schema version ${version}`);
       }
-      throw error;
+    } catch (error) {
+      return `migration failed: ${error instanceof Error ? error.message : String(error)}`;
     }
+
+    return validateState(state) ?? (state as unknown as StorageData);
   }
 
-  private debouncedSave(state?: StorageData) {
-    if (this.saveTimeout) {
-      clearTimeout(this.saveTimeout);
-    }
+  async loadState(): Promise<StorageData | null> {
+    this.ensureInitialized();
+    return structuredClone(this.data);
+  }
+
+  private scheduleSave() {
+    // Pending saves are never cancelled; the write picks up the latest state
+    if (this.saveTimeout) return;
 
-    this.saveTimeout = setTimeout(async () => {
-      await this.save(state);
+    this.saveTimeout = setTimeout(() => {
       this.saveTimeout = null;
+      this.save().catch(() => {
+        // Already logged by save; the next mutation retries
+      });
     }, this.saveDebounceMs);
   }
 
   async save(state?: StorageData): Promise<void> {
     this.ensureInitialized();
-    try {
-      const dataToSave = state || this.data;
-      dataToSave.lastUpdated = Date.now();
-      await writeFile(this.filePath, JSON.stringify(dataToSave, null, 2), 'utf-8');
-      this.log('💾 Saved monitor state');
-    } catch (error) {
-      console.error('❌ Failed to save monitor state:', error);
-      throw error;
+    if (state) {
+      const invalid = validateState(state);
+      if (invalid) {
+        throw new Error(`Refusing to save invalid monitor state: ${invalid}`);
+      }
+      this.data = structuredClone(state);
     }
+    await this.writeState(this.data);
+    this.logger.debug('💾 Saved monitor state');
+  }
+
+  /**
+   * Writes any pending debounced save immediately, e.g. on shutdown.
+   */
+  async flush(): Promise<void> {
+    if (this.saveTimeout) {
+      clearTimeout(this.saveTimeout);
+      this.saveTimeout = null;
+      await this.save();
+    }
+    await this.file.idle();
+  }
+
+  private writeState(state: StorageData): Promise<void> {
+    const write = this.file.write(() => {
+      state.lastUpdated = Date.now();
+      return JSON.stringify(state, null, 2);
+    });
+    write.catch((error: unknown) => {
+      this.logger.error(`❌ Failed to save monitor state: ${error instanceof Error ? error.message : String(error)}`);
+    });
+    return write;
   }
 
   async load(): Promise<StorageData> {
     this.ensureInitialized();
-    try {
-      const fileContent = await readFile(this.filePath, 'utf-8');
-      return JSON.parse(fileContent);
-    } catch (error) {
-      console.error('❌ Failed to load monitor state:', error);
-      throw error;
-    }
+    return structuredClone(this.data);
   }
 
   getServices(): ServiceConfig[] {
@@ -166,30 +320,22 @@ export class Storage {
 
   async getServiceStatus(serviceId: string): Promise<ServiceStatus | undefined> {
     this.ensureInitialized();
-    const status = this.data.services.status.find(s => s.id === serviceId);
-    if (status && !status.downtimePeriods) {
-      status.downtimePeriods = [];
-    }
-    return status;
+    return this.data.services.status.find(s => s.id === serviceId);
   }
 
   async getAllServiceConfigs(): Promise<ServiceConfig[]> {
-    const state = await this.load();
-    return state.services.configs;
+    this.ensureInitialized();
+    return this.data.services.configs;
   }
 
   async getAllServiceStatus(): Promise<ServiceStatus[]> {
-    const state = await this.load();
-    return state.services.status.map(status => ({
-      ...status,
-      downtimePeriods: status.downtimePeriods || [],
-      uptimePercentage30d: status.uptimePercentage30d || 100
-    }));
+    this.ensureInitialized();
+    return this.data.services.status;
   }
 
   async getAllSlaveStatus(): Promise<SlaveStatus[]> {
-    const state = await this.load();
-    return state.slaves;
+    this.ensureInitialized();
+    return this.data.slaves;
   }
 
   getSlaves(): SlaveStatus[] {
@@ -198,171 +344,199 @@ export class Storage {
   }
 
   async addService(service: ServiceConfig): Promise<void> {
-    const state = await this.load();
+    this.ensureInitialized();
     const now = Date.now();
 
-    const serviceStatus: ServiceStatus = {
-      id: service.id,
-      name: service.name,
-      type: service.type,
-      url: service.type === 'http' ? service.url : undefined,
-      host: service.type === 'icmp' ? service.host : undefined,
-      interval: service.interval,
-      timeout: service.timeout,
-      createdAt: now,
-      lastCheck: now,
-      lastStatus: true,
-      uptimePercentage: 100,
-      uptimePercentage30d: 100,
-      assignedSlaves: [],
-      lastDowntime: null,
-      downtimePeriods: []
-    };
+    const configs = this.data.services.configs;
+    const configIndex = configs.findIndex(s => s.id === service.id);
+    if (configIndex === -1) {
+      configs.push(service);
+    } else {
+      configs[configIndex] = service;
+    }
+
+    // Re-adding a service keeps its uptime history
+    if (!this.data.services.status.some(s => s.id === service.id)) {
+      this.data.services.status.push({
+        id: service.id,
+        name: service.name,
+        type: service.type,
+        url: service.type === 'http' ? service.url : undefined,
+        host: service.type === 'icmp' || service.type === 'tcp' || service.type === 'tls'
+          ? service.host
+          : service.type === 'dns' ? service.hostname : undefined,
+        interval: service.interval,
+        timeout: service.timeout,
+        createdAt: now,
+        lastCheck: now,
+        lastStatus: true,
+        uptimePercentage: 100,
+        uptimePercentage30d: 100,
+        assignedSlaves: [],
+        lastDowntime: null,
+        downtimePeriods: [],
+        degradedPercentage: 0,
+        degradedPercentage30d: 0,
+        degradedPeriods: []
+      });
+    }
 
-    state.services.status.push(serviceStatus);
-    this.debouncedSave(state);
+    this.scheduleSave();
   }
 
   async removeService(serviceId: string): Promise<void> {
-    const state = await this.load();
-    state.services.configs = state.services.configs.filter(s => s.id !== serviceId);
-    state.services.status = state.services.status.filter(s => s.id !== serviceId);
-    this.debouncedSave(state);
+    this.ensureInitialized();
+    this.data.services.configs = this.data.services.configs.filter(s => s.id !== serviceId);
+    this.data.services.status = this.data.services.status.filter(s => s.id !== serviceId);
+    this.scheduleSave();
   }
 
-  private calculateUptimePercentages(service: ServiceStatus, currentTime: number): { total: number, last30d: number } {
+  /**
+   * Uptime counts degraded time as up; degraded time is reported separately.
+   */
+  private calculateUptimePercentages(
+    service: ServiceStatus,
+    currentTime: number
+  ): { total: number, last30d: number, degraded: number, degraded30d: number } {
     const thirtyDaysAgo = currentTime - (30 * 24 * 60 * 60 * 1000); // 30 days in milliseconds
-    
-    // Calculate total uptime
-    const totalTime = currentTime - service.createdAt;
-    const totalDowntimeMs = service.downtimePeriods.reduce((acc, period) => {
+    const since30d = Math.max(service.createdAt, thirtyDaysAgo);
+
+    // Overlap of the periods with [from, currentTime]
+    const timeWithin = (periods: DowntimePeriod[], from: number) => periods.reduce((acc, period) => {
+      const start = Math.max(period.start, from);
       const end = period.end || currentTime;
-      return acc + (end - period.start);
+      return acc + Math.max(0, end - start);
     }, 0);
-    const totalUptimePercentage = ((totalTime - totalDowntimeMs) / totalTime) * 100;
-
-    // Calculate 30-day uptime
-    const recent30dDowntimeMs = service.downtimePeriods
-      .filter(period => period.start >= thirtyDaysAgo)
-      .reduce((acc, period) => {
-        const start = Math.max(period.start, thirtyDaysAgo);
-        const end = period.end || currentTime;
-        return acc + (end - start);
-      }, 0);
-    
-    const timeWindow30d = Math.min(totalTime, currentTime - thirtyDaysAgo);
-    const uptime30dPercentage = ((timeWindow30d - recent30dDowntimeMs) / timeWindow30d) * 100;
+    const percentage = (part: number, whole: number) =>
+      whole > 0 ? Math.max(0, Math.min(100, (part / whole) * 100)) : 0;
+
+    const totalTime = currentTime - service.createdAt;
+    const timeWindow30d = currentTime - since30d;
+    const degradedPeriods = service.degradedPeriods || [];
 
     return {
-      total: Math.max(0, Math.min(100, totalUptimePercentage)),
-      last30d: Math.max(0, Math.min(100, uptime30dPercentage))
+      total: totalTime > 0 ? 100 - percentage(timeWithin(service.downtimePeriods, service.createdAt), totalTime) : 100,
+      last30d: timeWindow30d > 0 ? 100 - percentage(timeWithin(service.downtimePeriods, since30d), timeWindow30d) : 100,
+      degraded: percentage(timeWithin(degradedPeriods, service.createdAt), totalTime),
+      degraded30d: percentage(timeWithin(degradedPeriods, since30d), timeWindow30d)
     };
   }
 
   async updateServiceStatus(serviceId: string, status: ServiceStatus): Promise<void> {
-    this.log(`📝 Updating status for service ${serviceId}`);
-    
-    const state = await this.load();
-    const serviceIndex = state.services.status.findIndex(s => s.id === serviceId);
-    if (serviceIndex === -1) {
-      state.services.status.push(status);
-    } else {
-      state.services.status[serviceIndex] = status;
-    }
-    
-    // Update in-memory data as well
-    this.data = state;
-    this.data.lastUpdated = Date.now();
-    
+    this.ensureInitialized();
+    this.logger.debug(`📝 Updating status for service ${serviceId}`);
+
     // Calculate uptime percentages
     const uptimePercentages = this.calculateUptimePercentages(status, Date.now());
     status.uptimePercentage = uptimePercentages.total;
     status.uptimePercentage30d = uptimePercentages.last30d;
-    
-    this.debouncedSave(this.data);
+    status.degradedPercentage = uptimePercentages.degraded;
+    status.degradedPercentage30d = uptimePercentages.degraded30d;
+
+    const serviceIndex = this.data.services.status.findIndex(s => s.id === serviceId);
+    if (serviceIndex === -1) {
+      this.data.services.status.push(status);
+    } else {
+      this.data.services.status[serviceIndex] = status;
+    }
+
+    this.scheduleSave();
   }
 
   async loadServiceStatus(serviceId: string): Promise<ServiceStatus | undefined> {
-    const state = await this.load();
-    const status = state.services.status.find(s => s.id === serviceId);
-    
-    if (status) {
-      return {
-        ...status,
-        downtimePeriods: status.downtimePeriods || [],
-        uptimePercentage30d: status.uptimePercentage30d || 100
-      };
-    }
-    
-    return undefined;
+    const status = await this.getServiceStatus(serviceId);
+    return status ? structuredClone(status) : undefined;
   }
 
   async updateSlaveStatus(slaveId: string, status: SlaveStatus): Promise<void> {
-    const state = await this.load();
-    const index = state.slaves.findIndex(s => s.id === slaveId);
+    this.ensureInitialized();
+    const index = this.data.slaves.findIndex(s => s.id === slaveId);
     if (index !== -1) {
-      state.slaves[index] = status;
+      this.data.slaves[index] = status;
     } else {
-      state.slaves.push(status);
+      this.data.slaves.push(status);
     }
-    this.debouncedSave(state);
+    this.scheduleSave();
   }
 
   async getSlaveStatus(slaveId: string): Promise<SlaveStatus | null> {
-    await this.load();
+    this.ensureInitialized();
     return this.data.slaves.find(slave => slave.id === slaveId) || null;
   }
 }
 
+/**
+ * Keyed view over Storage kept for existing callers. It used to write
+ * monitor-state.json in its own shape; it now shares Storage's state.
+ * @deprecated Use Storage directly.
+ */
 export class StateStorage {
-  private dataDir: string;
-  private stateFile: string;
+  private storage: Storage;
+  private ready: Promise<void> | null = null;
 
-  constructor() {
-    this.dataDir = join(process.cwd(), 'data');
-    this.stateFile = join(this.dataDir, 'monitor-state.json');
+  constructor(storage: Storage = new Storage(join(process.cwd(), 'data'))) {
+    this.storage = storage;
   }
 
-  async loadState(): Promise<StoredState | null> {
-    try {
-      await mkdir(this.dataDir, { recursive: true });
-      const data = await readFile(this.stateFile, 'utf-8');
-      return JSON.parse(data) as StoredState;
-    } catch (error) {
-      if (error instanceof Error && 'code' in error && error.code === 'ENOENT') {
-        // File doesn't exist yet, return null
-        return null;
-      }
-      throw error;
+  private async ensureReady(): Promise<void> {
+    if (!this.ready) {
+      this.ready = this.storage.initialize().catch(error => {
+        this.ready = null;
+        throw error;
+      });
     }
+    await this.ready;
+  }
+
+  async loadState(): Promise<StoredState | null> {
+    await this.ensureReady();
+    const services = await this.storage.getAllServiceStatus();
+    const slaves = await this.storage.getAllSlaveStatus();
+    return {
+      services: Object.fromEntries(services.map(status => [status.id, status])),
+      slaves: Object.fromEntries(slaves.map(slave => [slave.id, {
+        name: slave.name || slave.id,
+        lastSeen: slave.lastHeartbeat,
+        services: slave.services
+      }]))
+    };
   }
 
   async saveState(state: StoredState): Promise<void> {
-    await mkdir(this.dataDir, { recursive: true });
-    await writeFile(this.stateFile, JSON.stringify(state, null, 2), 'utf-8');
+    await this.ensureReady();
+    for (const [id, status] of Object.entries(state.services)) {
+      await this.updateServiceStatus(id, status);
+    }
+    for (const [id, slave] of Object.entries(state.slaves)) {
+      await this.updateSlaveStatus(id, slave);
+    }
   }
 
   async updateServiceStatus(id: string, status: ServiceStatus): Promise<void> {
-    const state = await this.loadState() || { services: {}, slaves: {} };
-    state.services[id] = status;
-    await this.saveState(state);
+    await this.ensureReady();
+    await this.storage.updateServiceStatus(id, status);
   }
 
   async updateSlaveStatus(id: string, status: { name: string; lastSeen: number; services: string[] }): Promise<void> {
-    const state = await this.loadState() || { services: {}, slaves: {} };
-    state.slaves[id] = status;
-    await this.saveState(state);
+    await this.ensureReady();
+    const existing = await this.storage.getSlaveStatus(id);
+    await this.storage.updateSlaveStatus(id, {
+      ...existing,
+      id,
+      name: status.name,
+      lastHeartbeat: status.lastSeen,
+      isActive: existing?.isActive ?? true,
+      services: status.services
+    });
   }
 
   async getAllServiceStatus(): Promise<ServiceStatus[]> {
-    const state = await this.loadState();
-    if (!state) return [];
-    return Object.values(state.services);
+    await this.ensureReady();
+    return this.storage.getAllServiceStatus();
   }
 
   async getServiceStatus(id: string): Promise<ServiceStatus | null> {
-    const state = await this.loadState();
-    if (!state) return null;
-    return state.services[id] || null;
+    await this.ensureReady();
+    return (await this.storage.getServiceStatus(id)) || null;
   }
 }
@@ -0,0 +1,28 @@
+import { createServer, AddressInfo, Server } from 'net';
+
+const servers = new Set<Server>();
+
+/**
+ * Starts a server on a free loopback port and resolves to the port.
+ * The server is stopped by closeServers().
+ */
+export function listen(server: Server): Promise<number> {
+  servers.add(server);
+  return new Promise(resolve => {
+    server.listen(0, '127.0.0.1', () => resolve((server.address() as AddressInfo).port));
+  });
+}
+
+// A port that was just free, so connecting to it is refused
+export async function closedPort(): Promise<number> {
+  const server = createServer();
+  const port = await listen(server);
+  await new Promise(resolve => server.close(resolve));
+  servers.delete(server);
+  return port;
+}
+
+export function closeServers() {
+  servers.forEach(server => server.close());
+  servers.clear();
+}
@@ -1,23 +1,215 @@
-export type MonitorType = 'http' | 'icmp';
+export type MonitorType = 'http' | 'icmp' | 'tcp' | 'dns' | 'tls';
+
+export type AddressFamily = 'auto' | 'ipv4' | 'ipv6' | 'both';
+
+export type IpFamily = 'ipv4' | 'ipv6';
+
+// How ICMP checks reach their target: the system ping binary, or a TCP-connect fallback when it is unusable
+export type IcmpMethod = 'binary' | 'tcp';
 
 export interface BaseServiceConfig {
   id: string;
   name: string;
   interval: number;
   timeout: number;
+  addressFamily?: AddressFamily;
+  sourceAddress?: string;
+  // Successful checks slower than this (ms) are reported as degraded
+  degradedLatency?: number;
+  // Checks slower than this (ms) are reported as down
+  downLatency?: number;
+  // Consecutive failures before the confirmed status becomes down (default 1)
+  failureThreshold?: number;
+  // Consecutive successes before the confirmed status becomes up again (default 1)
+  recoveryThreshold?: number;
+  // Sliding window (ms) and number of up/down transitions within it that mark a service as flapping
+  flapWindow?: number;
+  flapThreshold?: number;
+  // Overrides the slave-wide retry policy field by field
+  retry?: RetryPolicy;
+}
+
+export type RetryBackoff = 'fixed' | 'linear' | 'exponential';
+
+export type FailureCategory =
+  | 'timeout'
+  | 'connection'
+  | 'dns'
+  | 'tls'
+  | 'certificate'
+  | 'http'
+  | 'assertion'
+  | 'permission'
+  | 'config'
+  | 'other';
+
+export type ErrorCode =
+  | 'DNS_FAILURE'
+  | 'NO_RECORDS'
+  | 'CONNECTION_REFUSED'
+  | 'CONNECTION_RESET'
+  | 'HOST_UNREACHABLE'
+  | 'NO_RESPONSE'
+  | 'TIMEOUT'
+  | 'TLS_ERROR'
+  | 'CERTIFICATE_INVALID'
+  | 'CERTIFICATE_EXPIRED'
+  | 'HTTP_STATUS'
+  | 'TOO_MANY_REDIRECTS'
+  | 'ASSERTION_FAILED'
+  | 'LATENCY_EXCEEDED'
+  | 'PERMISSION_DENIED'
+  | 'INVALID_CONFIG'
+  // The checker itself threw; see CheckStatus 'unknown'
+  | 'CHECKER_ERROR'
+  | 'UNKNOWN';
+
+export interface RetryPolicy {
+  // Total attempts including the first (default 3)
+  attempts?: number;
+  // Base delay between attempts in ms (default 1000)
+  delayMs?: number;
+  backoff?: RetryBackoff;
+  maxDelayMs?: number;
+  // Fraction (0-1) of the delay randomly added or subtracted
+  jitter?: number;
+  // Failure categories worth another attempt
+  retryOn?: FailureCategory[];
+}
+
+export interface AttemptError {
+  attempt: number;
+  error: string;
+  code: ErrorCode;
+  category: FailureCategory;
+}
+
+// 'unknown' means the checker itself failed, so nothing is known about the service
+export type CheckStatus = 'up' | 'degraded' | 'down' | 'unknown';
+
+export type StatusCodeMatcher = number | string;
+
+export type HttpAssertion =
+  | { type: 'status'; codes: StatusCodeMatcher[] }
+  | { type: 'bodyContains'; value: string }
+  | { type: 'bodyRegex'; pattern: string; flags?: string }
+  | { type: 'jsonPath'; path: string; equals: unknown }
+  | { type: 'header'; name: string; value?: string }
+  | { type: 'responseTime'; maxMs: number };
+
+export type HttpMethod = 'GET' | 'HEAD' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' | 'OPTIONS';
+
+export type HttpRequestBody =
+  | { type: 'raw'; content: string; contentType?: string }
+  | { type: 'json'; content: unknown };
+
+export type HttpAuth =
+  | { type: 'basic'; username: string; password: string }
+  | { type: 'bearer'; token: string };
+
+export interface HttpRedirectPolicy {
+  follow: boolean;
+  maxRedirects?: number;
 }
 
 export interface HttpServiceConfig extends BaseServiceConfig {
   type: 'http';
   url: string;
+  method?: HttpMethod;
+  headers?: Record<string, string>;
+  body?: HttpRequestBody;
+  auth?: HttpAuth;
+  redirect?: HttpRedirectPolicy;
+  ignoreTlsErrors?: boolean;
+  assertions?: HttpAssertion[];
 }
 
 export interface IcmpServiceConfig extends BaseServiceConfig {
   type: 'icmp';
   host: string;
+  packetCount?: number;
+  packetInterval?: number;
+  degradedPacketLoss?: number;
+}
+
+export interface TcpServiceConfig extends BaseServiceConfig {
+  type: 'tcp';
+  host: string;
+  port: number;
+  payload?: string;
+  expect?: string;
+}
+
+export type DnsRecordType = 'A' | 'AAAA' | 'CNAME' | 'MX' | 'TXT' | 'NS' | 'SRV';
+
+export interface DnsServiceConfig extends BaseServiceConfig {
+  type: 'dns';
+  hostname: string;
+  recordType: DnsRecordType;
+  resolver?: string;
+  expected?: string[];
+}
+
+export interface TlsServiceConfig extends BaseServiceConfig {
+  type: 'tls';
+  host: string;
+  port?: number;
+  servername?: string;
+  expiryWarningDays?: number;
+  expiryCriticalDays?: number;
+  allowUntrusted?: boolean;
+}
+
+export type ServiceConfig =
+  | HttpServiceConfig
+  | IcmpServiceConfig
+  | TcpServiceConfig
+  | DnsServiceConfig
+  | TlsServiceConfig;
+
+export type OutboxDropPolicy = 'drop-oldest' | 'drop-newest';
+
+export interface OutboxConfig {
+  path?: string;
+  maxSize?: number;
+  dropPolicy?: OutboxDropPolicy;
+  initialBackoffMs?: number;
+  maxBackoffMs?: number;
+}
+
+export interface ReportingConfig {
+  mode: 'single' | 'batch';
+  batchSize?: number;
+  maxDelayMs?: number;
+  gzip?: boolean;
+}
+
+export interface HistoryConfig {
+  path?: string;
+  maxResultsPerService?: number;
+}
+
+export interface SlaveAuthConfig {
+  apiKey?: string;
+  requireSignature?: boolean;
+  signatureToleranceMs?: number;
+  allowedIps?: string[];
 }
 
-export type ServiceConfig = HttpServiceConfig | IcmpServiceConfig;
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+export type LogFormat = 'text' | 'json';
+export type LogFields = Record<string, unknown>;
+
+export interface LoggingConfig {
+  level?: LogLevel;
+  format?: LogFormat;
+  // Write log files in addition to stdout
+  file?: boolean;
+  dir?: string;
+  // Bytes before the current file is rotated
+  maxFileSize?: number;
+  retentionDays?: number;
+}
 
 export interface SlaveConfig {
   id: string;
@@ -29,9 +221,25 @@ export interface SlaveConfig {
   host?: string;
   maxConcurrentChecks?: number;
   checkTimeout?: number;
+  // Superseded by retry.attempts, which wins when both are set
   retryAttempts?: number;
+  retry?: RetryPolicy;
   maxMemoryMb?: number;
   cpuLimit?: number;
+  outbox?: OutboxConfig;
+  reporting?: ReportingConfig;
+  auth?: SlaveAuthConfig;
+  logging?: LoggingConfig;
+  // How long stop() waits for in-flight checks and report delivery
+  shutdownTimeoutMs?: number;
+  region?: string;
+  datacenter?: string;
+  heartbeatIntervalMs?: number;
+  // How often assigned services are reconciled with the master
+  syncIntervalMs?: number;
+  history?: HistoryConfig;
+  // Port probed by ICMP checks over TCP when the startup self-test finds ICMP unusable
+  icmpFallbackPort?: number;
 }
 
 export interface SlaveStatus {
@@ -45,19 +253,140 @@ export interface SlaveStatus {
   region?: string;
   datacenter?: string;
   version?: string;
-  stats?: {
-    cpuUsage?: number;
-    memoryUsage?: number;
-    uptime?: number;
-  };
+  stats?: SlaveStats;
+}
+
+export interface SlaveStats {
+  // Percent of one core used since the previous heartbeat
+  cpuUsage?: number;
+  // Resident memory in bytes
+  memoryUsage?: number;
+  // Process uptime in seconds
+  uptime?: number;
+  activeChecks?: number;
+  queuedChecks?: number;
+  pendingReports?: number;
+}
+
+export interface HeartbeatPayload {
+  slaveId: string;
+  name?: string;
+  version: string;
+  region?: string;
+  datacenter?: string;
+  supportedTypes: MonitorType[];
+  services: string[];
+  // sha256 of the sorted assigned service ids
+  servicesHash: string;
+  stats: SlaveStats;
+  leaving?: boolean;
+}
+
+export interface HeartbeatResponse {
+  servicesHash?: string;
 }
 
+export interface SyncStatus {
+  lastAttemptAt: number | null;
+  lastSuccessAt: number | null;
+  result: 'ok' | 'error' | null;
+  error: string | null;
+  // Changes applied by the last successful sync
+  added: number;
+  updated: number;
+  removed: number;
+  nextSyncAt: number | null;
+}
+
+// Entry of the master's GET /services list
+export type AssignedServiceConfig = ServiceConfig & {
+  assignedSlaves?: string[];
+};
+
 export interface MonitoringResult {
   serviceId: string;
   timestamp: number;
+  status: CheckStatus;
+  // True for 'up' and 'degraded'; kept for consumers of the boolean
   success: boolean;
   duration: number;
+  // Human-readable reason, null when the check succeeded
   error: string | null;
+  // Machine-readable reason for grouping and alerting, null when the check succeeded
+  errorCode: ErrorCode | null;
+  attempts?: number;
+  // One entry per failed attempt, in order
+  attemptErrors?: AttemptError[];
+  addressFamily?: IpFamily;
+  resolvedAddress?: string;
+  connectTime?: number;
+  resolvedValues?: string[];
+  lookupTime?: number;
+  certificate?: CertificateInfo;
+  timings?: HttpTimings;
+  statusCode?: number;
+  responseSize?: number;
+  finalUrl?: string;
+  rtt?: RttStats;
+  packetLoss?: number;
+  icmpMethod?: IcmpMethod;
+  degraded?: boolean;
+  degradedReason?: string;
+  failedAssertion?: AssertionFailure | null;
+  // Status after confirmation thresholds and flap suppression
+  confirmedStatus?: CheckStatus;
+  flapping?: boolean;
+}
+
+export interface HttpTimings {
+  dns: number;
+  connect: number;
+  tls: number | null;
+  ttfb: number;
+  download: number;
+  total: number;
+}
+
+export interface RttStats {
+  min: number;
+  avg: number;
+  max: number;
+  jitter: number;
+}
+
+export interface CertificateInfo {
+  subject: string;
+  issuer: string;
+  subjectAltNames: string[];
+  validFrom: number;
+  validTo: number;
+  daysRemaining: number;
+  fingerprint256: string;
+  trusted: boolean;
+  authorizationError: string | null;
+  hostnameMatch: boolean;
+  expiringSoon?: boolean;
+}
+
+export interface AssertionFailure {
+  assertion: HttpAssertion;
+  message: string;
+}
+
+export interface ServiceState {
+  lastResult: MonitoringResult | null;
+  lastSuccessAt: number | null;
+  lastFailureAt: number | null;
+  confirmedStatus: CheckStatus;
+  consecutiveFailures: number;
+  consecutiveSuccesses: number;
+  // Timestamps of up/down transitions inside the flap window
+  transitions: number[];
+  flapping: boolean;
+}
+
+export interface ReportPayload extends MonitoringResult {
+  slaveId: string;
 }
 
 export interface DowntimePeriod {
@@ -65,6 +394,35 @@ export interface DowntimePeriod {
   end: number | null;
 }
 
+// Downtime derived from a slave's local result history
+export interface ResultDowntimePeriod extends DowntimePeriod {
+  duration: number | null;
+  failedChecks: number;
+  error: string | null;
+  // Set when the service is checked over both address families
+  family?: IpFamily;
+}
+
+export interface LatencyPercentiles {
+  p50: number | null;
+  p95: number | null;
+  p99: number | null;
+}
+
+export interface UptimeStats {
+  from: number;
+  to: number;
+  checks: number;
+  successful: number;
+  degraded: number;
+  // Share of successful checks; null when there were no checks in the range
+  uptimePercentage: number | null;
+  // Over successful checks only
+  latency: LatencyPercentiles;
+  // Per-family breakdown for services checked over both address families
+  families?: Partial<Record<IpFamily, UptimeStats>>;
+}
+
 export interface ServiceStatus {
   id: string;
   name: string;
@@ -81,11 +439,15 @@ export interface ServiceStatus {
   assignedSlaves: string[];
   lastDowntime: DowntimePeriod | null;
   downtimePeriods: DowntimePeriod[];
+  // Degraded time is counted as up in uptimePercentage and reported on its own here
+  degradedPercentage: number;
+  degradedPercentage30d: number;
+  degradedPeriods: DowntimePeriod[];
 }
 
 export interface UptimeRecord {
   timestamp: number;
-  status: 'up' | 'down';
+  status: 'up' | 'degraded' | 'down';
 }
 
 export interface MasterConfig {
@@ -101,6 +463,8 @@ export interface MasterConfig {
 }
 
 export interface StorageData {
+  // Schema version of monitor-state.json, see STORAGE_SCHEMA_VERSION
+  version: number;
   services: {
     configs: ServiceConfig[];
     status: ServiceStatus[];
@@ -0,0 +1,35 @@
+import { promises as dns } from 'dns';
+import { isIP } from 'net';
+import { IpFamily } from '../types';
+
+export function familyNumber(family?: IpFamily): 0 | 4 | 6 {
+  return family === 'ipv4' ? 4 : family === 'ipv6' ? 6 : 0;
+}
+
+// Sockets report 'IPv4'/'IPv6' (or 4/6 on some runtimes)
+export function familyName(family: string | number | undefined): IpFamily | undefined {
+  if (family === 4 || family === 'IPv4') return 'ipv4';
+  if (family === 6 || family === 'IPv6') return 'ipv6';
+  return undefined;
+}
+
+export function addressFamily(address: string): IpFamily | undefined {
+  return familyName(isIP(address));
+}
+
+/**
+ * Resolves a hostname the way the OS would for a connect, optionally pinned
+ * to one address family. IP literals are returned as-is.
+ */
+export async function resolveHost(host: string, family?: IpFamily): Promise<{ address: string; family: IpFamily }> {
+  const literal = addressFamily(host);
+  if (literal) {
+    if (family && literal !== family) {
+      throw new Error(`Address ${host} is not ${family === 'ipv4' ? 'IPv4' : 'IPv6'}`);
+    }
+    return { address: host, family: literal };
+  }
+
+  const result = await dns.lookup(host, { family: familyNumber(family) });
+  return { address: result.address, family: result.family === 6 ? 'ipv6' : 'ipv4' };
+}
@@ -0,0 +1,141 @@
+import { HttpAssertion, AssertionFailure, StatusCodeMatcher } from '../types';
+
+export interface HttpResponseSnapshot {
+  status: number;
+  statusText: string;
+  headers: Headers;
+  body: string | null;
+  duration: number;
+}
+
+// Applied when a service does not declare its own status assertion
+const DEFAULT_STATUS_ASSERTION: HttpAssertion = { type: 'status', codes: ['2xx'] };
+
+function matchesStatus(status: number, matcher: StatusCodeMatcher): boolean {
+  if (typeof matcher === 'number') {
+    return status === matcher;
+  }
+
+  const value = matcher.trim().toLowerCase();
+
+  // Class matcher, e.g. "2xx"
+  const classMatch = value.match(/^([1-5])xx$/);
+  if (classMatch) {
+    return Math.floor(status / 100) === Number(classMatch[1]);
+  }
+
+  // Range matcher, e.g. "200-299"
+  const rangeMatch = value.match(/^(\d{3})\s*-\s*(\d{3})$/);
+  if (rangeMatch) {
+    return status >= Number(rangeMatch[1]) && status <= Number(rangeMatch[2]);
+  }
+
+  return status === Number(value);
+}
+
+function resolveJsonPath(data: unknown, path: string): unknown {
+  // Accepts "$.a.b[0].c" as well as "a.b.0.c"
+  const segments = path
+    .replace(/^\$\.?/, '')
+    .replace(/\[(\d+)\]/g, '.$1')
+    .split('.')
+    .filter(Boolean);
+
+  return segments.reduce<unknown>((value, key) => {
+    if (value !== null && typeof value === 'object') {
+      return (value as Record<string, unknown>)[key];
+    }
+    return undefined;
+  }, data);
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function checkAssertion(
+  assertion: HttpAssertion,
+  response: HttpResponseSnapshot,
+  parseJson: () => { ok: boolean; value?: unknown }
+): string | null {
+  switch (assertion.type) {
+    case 'status':
+      return assertion.codes.some(code => matchesStatus(response.status, code))
+        ? null
+        : `HTTP ${response.status}: ${response.statusText}`;
+
+    case 'bodyContains':
+      return response.body?.includes(assertion.value)
+        ? null
+        : `Response body does not contain "${assertion.value}"`;
+
+    case 'bodyRegex': {
+      let regex: RegExp;
+      try {
+        regex = new RegExp(assertion.pattern, assertion.flags);
+      } catch {
+        return `Invalid body regex: ${assertion.pattern}`;
+      }
+      return regex.test(response.body ?? '')
+        ? null
+        : `Response body does not match /${assertion.pattern}/${assertion.flags || ''}`;
+    }
+
+    case 'jsonPath': {
+      const parsed = parseJson();
+      if (!parsed.ok) {
+        return 'Invalid JSON response';
+      }
+      const actual = resolveJsonPath(parsed.value, assertion.path);
+      return isEqual(actual, assertion.equals)
+        ? null
+        : `Expected ${assertion.path} to equal ${JSON.stringify(assertion.equals)}, got ${JSON.stringify(actual)}`;
+    }
+
+    case 'header': {
+      const actual = response.headers.get(assertion.name);
+      if (actual === null) {
+        return `Missing response header ${assertion.name}`;
+      }
+      if (assertion.value !== undefined && actual !== assertion.value) {
+        return `Expected header ${assertion.name} to be "${assertion.value}", got "${actual}"`;
+      }
+      return null;
+    }
+
+    case 'responseTime':
+      return response.duration <= assertion.maxMs
+        ? null
+        : `Response time ${response.duration}ms exceeds ${assertion.maxMs}ms`;
+  }
+}
+
+export function evaluateAssertions(
+  assertions: HttpAssertion[] = [],
+  response: HttpResponseSnapshot
+): AssertionFailure | null {
+  const effective = assertions.some(a => a.type === 'status')
+    ? assertions
+    : [DEFAULT_STATUS_ASSERTION, ...assertions];
+
+  let json: { ok: boolean; value?: unknown } | undefined;
+  const parseJson = () => {
+    if (!json) {
+      try {
+        json = { ok: true, value: JSON.parse(response.body ?? '') };
+      } catch {
+        json = { ok: false };
+      }
+    }
+    return json;
+  };
+
+  for (const assertion of effective) {
+    const message = checkAssertion(assertion, response, parseJson);
+    if (message) {
+      return { assertion, message };
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,49 @@
+import { appendFile, rename, writeFile } from 'fs/promises';
+
+/**
+ * A file whose writes never interleave or land out of order. Each write
+ * goes to a temp file that is renamed over the target, so readers and
+ * crashes only ever see a complete file; appends queue behind writes.
+ *
+ * A failed write rejects its own promise but does not block later ones.
+ */
+export class AtomicFile {
+  readonly path: string;
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  /**
+   * Replaces the file. A function is called when the write actually
+   * starts, so it snapshots the newest state rather than the state at
+   * the time of the call.
+   */
+  write(content: string | (() => string)): Promise<void> {
+    return this.enqueue(async () => {
+      const tempPath = `${this.path}.tmp`;
+      await writeFile(tempPath, typeof content === 'function' ? content() : content, 'utf-8');
+      await rename(tempPath, this.path);
+    });
+  }
+
+  append(content: string): Promise<void> {
+    return this.enqueue(() => appendFile(this.path, content, 'utf-8'));
+  }
+
+  /**
+   * Resolves once every write queued so far has finished.
+   */
+  idle(): Promise<void> {
+    return this.pending;
+  }
+
+  private enqueue(operation: () => Promise<void>): Promise<void> {
+    const result = this.pending.then(operation);
+    this.pending = result.catch(() => {
+      // Reported to the caller through `result`
+    });
+    return result;
+  }
+}
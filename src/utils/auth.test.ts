@@ -0,0 +1,112 @@
+import { describe, expect, test } from 'bun:test';
+import { isIpAllowed, ReplayCache, safeEqual, signRequest, SignedRequest, verifySignature } from './auth';
+
+const KEY = 'slave-key';
+const NOW = 1_700_000_000_000;
+const TOLERANCE_MS = 300000;
+
+function signed(overrides: Partial<SignedRequest> = {}): SignedRequest {
+  const request = {
+    timestamp: String(NOW),
+    method: 'POST',
+    path: '/service',
+    body: '{"id":"api"}',
+    ...overrides
+  };
+  return {
+    signature: signRequest(KEY, request.timestamp, request.method, request.path, request.body),
+    ...request
+  };
+}
+
+describe('safeEqual', () => {
+  test('compares strings of any length', () => {
+    expect(safeEqual('secret', 'secret')).toBe(true);
+    expect(safeEqual('secret', 'secreT')).toBe(false);
+    expect(safeEqual('secret', 'secret-but-longer')).toBe(false);
+    expect(safeEqual('', 'secret')).toBe(false);
+  });
+});
+
+describe('verifySignature', () => {
+  test('accepts a valid signature', () => {
+    expect(verifySignature(signed(), KEY, TOLERANCE_MS, new ReplayCache(TOLERANCE_MS), NOW)).toBeNull();
+  });
+
+  test('accepts a timestamp at the edge of the tolerance', () => {
+    const request = signed({ timestamp: String(NOW - TOLERANCE_MS) });
+
+    expect(verifySignature(request, KEY, TOLERANCE_MS, new ReplayCache(TOLERANCE_MS), NOW)).toBeNull();
+  });
+
+  test('rejects a signature made with another key', () => {
+    const request = signed({ signature: signRequest('other-key', String(NOW), 'POST', '/service', '{"id":"api"}') });
+
+    expect(verifySignature(request, KEY, TOLERANCE_MS, new ReplayCache(TOLERANCE_MS), NOW)).toBe('invalid signature');
+  });
+
+  test('rejects a request whose body was changed after signing', () => {
+    const request = { ...signed(), body: '{"id":"other"}' };
+
+    expect(verifySignature(request, KEY, TOLERANCE_MS, new ReplayCache(TOLERANCE_MS), NOW)).toBe('invalid signature');
+  });
+
+  test('rejects timestamps outside the tolerance', () => {
+    const cache = new ReplayCache(TOLERANCE_MS);
+
+    expect(verifySignature(signed({ timestamp: String(NOW - TOLERANCE_MS - 1) }), KEY, TOLERANCE_MS, cache, NOW))
+      .toBe('timestamp outside tolerance');
+    expect(verifySignature(signed({ timestamp: String(NOW + TOLERANCE_MS + 1) }), KEY, TOLERANCE_MS, cache, NOW))
+      .toBe('timestamp outside tolerance');
+    expect(verifySignature(signed({ timestamp: 'yesterday' }), KEY, TOLERANCE_MS, cache, NOW))
+      .toBe('timestamp outside tolerance');
+  });
+
+  test('rejects a replayed request', () => {
+    const cache = new ReplayCache(TOLERANCE_MS);
+    const request = signed();
+
+    expect(verifySignature(request, KEY, TOLERANCE_MS, cache, NOW)).toBeNull();
+    expect(verifySignature(request, KEY, TOLERANCE_MS, cache, NOW + 1000)).toBe('replayed request');
+  });
+});
+
+describe('ReplayCache', () => {
+  test('forgets signatures once the window has passed', () => {
+    const cache = new ReplayCache(1000);
+
+    expect(cache.remember('abc', NOW)).toBe(true);
+    expect(cache.remember('abc', NOW + 999)).toBe(false);
+    expect(cache.remember('abc', NOW + 1000)).toBe(true);
+  });
+});
+
+describe('isIpAllowed', () => {
+  test('matches exact addresses', () => {
+    expect(isIpAllowed('10.0.0.5', ['10.0.0.5'])).toBe(true);
+    expect(isIpAllowed('10.0.0.6', ['10.0.0.5'])).toBe(false);
+    expect(isIpAllowed('2001:DB8::1', ['2001:db8::1'])).toBe(true);
+  });
+
+  test('treats IPv4-mapped IPv6 addresses as IPv4', () => {
+    expect(isIpAllowed('::ffff:10.0.0.5', ['10.0.0.5'])).toBe(true);
+    expect(isIpAllowed('::FFFF:192.168.1.20', ['192.168.1.0/24'])).toBe(true);
+  });
+
+  test('matches IPv4 CIDR ranges', () => {
+    expect(isIpAllowed('10.20.30.40', ['10.0.0.0/8'])).toBe(true);
+    expect(isIpAllowed('11.0.0.1', ['10.0.0.0/8'])).toBe(false);
+    expect(isIpAllowed('192.168.1.255', ['192.168.1.0/24'])).toBe(true);
+    expect(isIpAllowed('192.168.2.0', ['192.168.1.0/24'])).toBe(false);
+    expect(isIpAllowed('203.0.113.9', ['0.0.0.0/0'])).toBe(true);
+    expect(isIpAllowed('203.0.113.9', ['203.0.113.9/32'])).toBe(true);
+  });
+
+  test('does not match IPv6 addresses against IPv4 ranges', () => {
+    expect(isIpAllowed('2001:db8::1', ['10.0.0.0/8'])).toBe(false);
+  });
+
+  test('matches any entry of the list', () => {
+    expect(isIpAllowed('172.16.0.1', ['10.0.0.0/8', ' 172.16.0.0/12 '])).toBe(true);
+  });
+});
@@ -0,0 +1,111 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { isIP } from 'net';
+
+export function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+/**
+ * HMAC-SHA256 over "<timestamp>\n<METHOD>\n<path>\n<raw body>", hex encoded.
+ */
+export function signRequest(key: string, timestamp: string, method: string, path: string, body: string): string {
+  return createHmac('sha256', key)
+    .update(`${timestamp}\n${method.toUpperCase()}\n${path}\n${body}`)
+    .digest('hex');
+}
+
+function normalizeIp(ip: string): string {
+  // IPv4 clients on a dual-stack socket show up as IPv4-mapped IPv6
+  return ip.replace(/^::ffff:(?=\d+\.\d+\.\d+\.\d+$)/i, '').toLowerCase();
+}
+
+function ipv4ToNumber(ip: string): number {
+  return ip.split('.').reduce((acc, octet) => (acc << 8) + Number(octet), 0) >>> 0;
+}
+
+/**
+ * Matches exact addresses (IPv4 or IPv6) and IPv4 CIDR ranges such as 10.0.0.0/8.
+ */
+export function isIpAllowed(ip: string, allowlist: string[]): boolean {
+  const address = normalizeIp(ip);
+
+  return allowlist.some(entry => {
+    const [range, bits] = entry.trim().split('/');
+    if (bits === undefined) {
+      return normalizeIp(range) === address;
+    }
+    if (isIP(range) !== 4 || isIP(address) !== 4) {
+      return false;
+    }
+    const prefix = Number(bits);
+    const mask = prefix === 0 ? 0 : (~0 << (32 - prefix)) >>> 0;
+    return (ipv4ToNumber(range) & mask) === (ipv4ToNumber(address) & mask);
+  });
+}
+
+/**
+ * Remembers signatures for the length of the timestamp tolerance window
+ * so a captured request cannot be replayed while its timestamp is valid.
+ */
+export class ReplayCache {
+  private seen: Map<string, number> = new Map();
+  private ttlMs: number;
+
+  constructor(ttlMs: number) {
+    this.ttlMs = ttlMs;
+  }
+
+  remember(signature: string, now: number = Date.now()): boolean {
+    for (const [key, expiresAt] of this.seen) {
+      if (expiresAt <= now) {
+        this.seen.delete(key);
+      }
+    }
+
+    if (this.seen.has(signature)) {
+      return false;
+    }
+    this.seen.set(signature, now + this.ttlMs);
+    return true;
+  }
+}
+
+export interface SignedRequest {
+  timestamp: string;
+  signature: string;
+  method: string;
+  // Path plus query string
+  path: string;
+  body: string;
+}
+
+export type SignatureRejection = 'timestamp outside tolerance' | 'invalid signature' | 'replayed request';
+
+/**
+ * Checks a signed request against the key: its timestamp must be within
+ * `toleranceMs` of now, the signature must match, and the signature must
+ * not have been seen before. Returns why it is rejected, or null.
+ */
+export function verifySignature(
+  request: SignedRequest,
+  key: string,
+  toleranceMs: number,
+  replayCache: ReplayCache,
+  now: number = Date.now()
+): SignatureRejection | null {
+  if (!(Math.abs(now - Number(request.timestamp)) <= toleranceMs)) {
+    return 'timestamp outside tolerance';
+  }
+
+  const expected = signRequest(key, request.timestamp, request.method, request.path, request.body);
+  if (!safeEqual(request.signature, expected)) {
+    return 'invalid signature';
+  }
+
+  if (!replayCache.remember(request.signature, now)) {
+    return 'replayed request';
+  }
+  return null;
+}
@@ -0,0 +1,154 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { createSocket, Socket } from 'dgram';
+import { AddressInfo } from 'net';
+import { dnsLookup, isResolverAddress, normalizeRecordValue } from './dns';
+
+const TYPE_A = 1;
+const TYPE_MX = 15;
+const TYPE_TXT = 16;
+const RCODE_NXDOMAIN = 3;
+
+// Answers keyed by "name/type"; each is an encoded RDATA
+const ZONE = new Map<string, Buffer[]>([
+  [`example.test/${TYPE_A}`, [Buffer.from([192, 0, 2, 1]), Buffer.from([192, 0, 2, 2])]],
+  [`example.test/${TYPE_MX}`, [Buffer.concat([Buffer.from([0, 10]), encodeName('mail.example.test')])]],
+  [`example.test/${TYPE_TXT}`, [characterString('v=spf1 -all'), characterString('google-site-verification=abc')]]
+]);
+
+// Queries for this name are never answered
+const SILENT_NAME = 'silent.example.test';
+
+function encodeName(name: string): Buffer {
+  const labels = name.split('.').map(label => Buffer.concat([Buffer.from([label.length]), Buffer.from(label)]));
+  return Buffer.concat([...labels, Buffer.from([0])]);
+}
+
+function characterString(text: string): Buffer {
+  return Buffer.concat([Buffer.from([text.length]), Buffer.from(text)]);
+}
+
+function parseQuestion(query: Buffer): { name: string; type: number; end: number } {
+  const labels: string[] = [];
+  let offset = 12;
+  while (query[offset] !== 0) {
+    labels.push(query.subarray(offset + 1, offset + 1 + query[offset]).toString());
+    offset += query[offset] + 1;
+  }
+  return { name: labels.join('.').toLowerCase(), type: query.readUInt16BE(offset + 1), end: offset + 5 };
+}
+
+/**
+ * Minimal authoritative server for ZONE: echoes the question and appends
+ * one answer per RDATA, pointing back at the question name.
+ */
+function answer(query: Buffer): Buffer | null {
+  const { name, type, end } = parseQuestion(query);
+  if (name === SILENT_NAME) return null;
+
+  const records = ZONE.get(`${name}/${type}`);
+  const header = Buffer.alloc(12);
+  query.copy(header, 0, 0, 2);
+  header.writeUInt16BE(0x8400 | (records ? 0 : RCODE_NXDOMAIN), 2);
+  header.writeUInt16BE(1, 4);
+  header.writeUInt16BE(records?.length ?? 0, 6);
+
+  const answers = (records ?? []).map(rdata => {
+    const fixed = Buffer.alloc(12);
+    fixed.writeUInt16BE(0xc00c, 0);
+    fixed.writeUInt16BE(type, 2);
+    fixed.writeUInt16BE(1, 4);
+    fixed.writeUInt32BE(60, 6);
+    fixed.writeUInt16BE(rdata.length, 10);
+    return Buffer.concat([fixed, rdata]);
+  });
+  return Buffer.concat([header, query.subarray(12, end), ...answers]);
+}
+
+let server: Socket;
+let resolver: string;
+
+beforeAll(async () => {
+  server = createSocket('udp4');
+  server.on('message', (query, remote) => {
+    const response = answer(query);
+    if (response) server.send(response, remote.port, remote.address);
+  });
+  await new Promise<void>(resolve => server.bind(0, '127.0.0.1', resolve));
+  resolver = `127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => {
+  server.close();
+});
+
+describe('dnsLookup', () => {
+  test('resolves A records through the given resolver', async () => {
+    const result = await dnsLookup('example.test', 'A', { resolver, timeout: 2000 });
+
+    expect(result.error).toBeUndefined();
+    expect(result.values.sort()).toEqual(['192.0.2.1', '192.0.2.2']);
+    expect(result.server).toBe('127.0.0.1');
+  });
+
+  test('formats MX records as "priority exchange"', async () => {
+    const result = await dnsLookup('example.test', 'MX', { resolver, timeout: 2000 });
+
+    expect(result.values).toEqual(['10 mail.example.test']);
+  });
+
+  test('returns each TXT record as one string', async () => {
+    const result = await dnsLookup('example.test', 'TXT', { resolver, timeout: 2000 });
+
+    expect(result.values.sort()).toEqual(['google-site-verification=abc', 'v=spf1 -all']);
+  });
+
+  test('reports a missing name as a DNS failure', async () => {
+    const result = await dnsLookup('missing.example.test', 'A', { resolver, timeout: 2000 });
+
+    expect(result.values).toEqual([]);
+    expect(result.code).toBe('DNS_FAILURE');
+  });
+
+  test('times out when the resolver does not answer', async () => {
+    const result = await dnsLookup(SILENT_NAME, 'A', { resolver, timeout: 300 });
+
+    expect(result.values).toEqual([]);
+    expect(result.code).toBe('TIMEOUT');
+  });
+
+  test('rejects a resolver outside the pinned family', async () => {
+    const result = await dnsLookup('example.test', 'A', { resolver, family: 'ipv6' });
+
+    expect(result.code).toBe('INVALID_CONFIG');
+    expect(result.error).toBe('No IPv6 resolver available');
+  });
+
+  test('reports a resolver hostname as a config error', async () => {
+    const result = await dnsLookup('example.test', 'A', { resolver: 'dns.google' });
+
+    expect(result.values).toEqual([]);
+    expect(result.code).toBe('INVALID_CONFIG');
+  });
+});
+
+describe('isResolverAddress', () => {
+  test('accepts IP addresses with or without a port', () => {
+    expect(isResolverAddress('1.1.1.1')).toBe(true);
+    expect(isResolverAddress('1.1.1.1:53')).toBe(true);
+    expect(isResolverAddress('2606:4700::1111')).toBe(true);
+    expect(isResolverAddress('[2606:4700::1111]:53')).toBe(true);
+  });
+
+  test('rejects hostnames and invalid ports', () => {
+    expect(isResolverAddress('dns.google')).toBe(false);
+    expect(isResolverAddress('dns.google:53')).toBe(false);
+    expect(isResolverAddress('1.1.1.1:0')).toBe(false);
+    expect(isResolverAddress('1.1.1.1:70000')).toBe(false);
+  });
+});
+
+describe('normalizeRecordValue', () => {
+  test('ignores case and the trailing root dot', () => {
+    expect(normalizeRecordValue(' Mail.Example.TEST. ')).toBe('mail.example.test');
+  });
+});
@@ -0,0 +1,123 @@
+import { promises as dns } from 'dns';
+import { DnsRecordType, ErrorCode, IpFamily } from '../types';
+import { addressFamily } from './address';
+import { errorCodeOf } from './errors';
+
+interface DnsLookupOptions {
+  timeout?: number;
+  resolver?: string;
+  family?: IpFamily;
+  sourceAddress?: string;
+}
+
+interface DnsLookupResult {
+  values: string[];
+  time: number;
+  server?: string;
+  error?: string;
+  code?: ErrorCode;
+}
+
+function formatRecords(recordType: DnsRecordType, records: unknown[]): string[] {
+  switch (recordType) {
+    case 'MX':
+      return (records as { priority: number; exchange: string }[])
+        .map(r => `${r.priority} ${r.exchange}`);
+    case 'TXT':
+      return (records as string[][]).map(chunks => chunks.join(''));
+    case 'SRV':
+      return (records as { priority: number; weight: number; port: number; name: string }[])
+        .map(r => `${r.priority} ${r.weight} ${r.port} ${r.name}`);
+    default:
+      return records as string[];
+  }
+}
+
+// Hostnames are compared case-insensitively and without the trailing root dot
+export function normalizeRecordValue(value: string): string {
+  return value.trim().replace(/\.$/, '').toLowerCase();
+}
+
+// Resolver entries may be "1.1.1.1:53" or "[2606:4700::1111]:53"
+function stripPort(server: string): string {
+  const bracketed = server.match(/^\[(.+)\](?::\d+)?$/);
+  if (bracketed) return bracketed[1];
+  return /^[^:]+:\d+$/.test(server) ? server.split(':')[0] : server;
+}
+
+/**
+ * Whether a resolver entry is an IP address, optionally with a port
+ * ("1.1.1.1:53", "[2606:4700::1111]:53"). Resolvers cannot be hostnames.
+ */
+export function isResolverAddress(server: string): boolean {
+  const port = server.match(/^(?:\[.+\]|[^:]+):(\d+)$/)?.[1];
+  if (port !== undefined && (Number(port) < 1 || Number(port) > 65535)) return false;
+  return addressFamily(stripPort(server)) !== undefined;
+}
+
+export async function dnsLookup(
+  hostname: string,
+  recordType: DnsRecordType,
+  options: DnsLookupOptions = {}
+): Promise<DnsLookupResult> {
+  const timeout = options.timeout || 5000;
+  const resolver = new dns.Resolver({ timeout, tries: 1 });
+
+  // Pinning a family means only talking to resolvers of that family
+  const servers = (options.resolver ? [options.resolver] : resolver.getServers())
+    .filter(server => !options.family || addressFamily(stripPort(server)) === options.family);
+  if (servers.length === 0) {
+    return {
+      values: [],
+      time: 0,
+      error: `No ${options.family === 'ipv6' ? 'IPv6' : 'IPv4'} resolver available`,
+      code: 'INVALID_CONFIG'
+    };
+  }
+  try {
+    resolver.setServers(servers);
+    if (options.sourceAddress) {
+      const isV6 = addressFamily(options.sourceAddress) === 'ipv6';
+      resolver.setLocalAddress(isV6 ? '0.0.0.0' : options.sourceAddress, isV6 ? options.sourceAddress : '::0');
+    }
+  } catch (error) {
+    return {
+      values: [],
+      time: 0,
+      error: `Invalid resolver configuration: ${error instanceof Error ? error.message : String(error)}`,
+      code: 'INVALID_CONFIG'
+    };
+  }
+
+  const server = stripPort(servers[0]);
+  const startTime = Date.now();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  try {
+    const records = await Promise.race([
+      resolver.resolve(hostname, recordType) as Promise<unknown[]>,
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+          resolver.cancel();
+          reject(new Error('DNS lookup timed out'));
+        }, timeout);
+      })
+    ]);
+
+    return {
+      values: formatRecords(recordType, records),
+      time: Date.now() - startTime,
+      server
+    };
+  } catch (error) {
+    return {
+      values: [],
+      time: Date.now() - startTime,
+      server,
+      error: error instanceof Error ? error.message : String(error),
+      code: errorCodeOf(error, 'DNS_FAILURE')
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+}
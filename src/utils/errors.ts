@@ -0,0 +1,89 @@
+import { ErrorCode, FailureCategory } from '../types';
+
+// Node/Bun system and TLS error codes (error.code)
+const SYSTEM_ERROR_CODES: Record<string, ErrorCode> = {
+  ENOTFOUND: 'DNS_FAILURE',
+  EAI_AGAIN: 'DNS_FAILURE',
+  EAI_NONAME: 'DNS_FAILURE',
+  ESERVFAIL: 'DNS_FAILURE',
+  EREFUSED: 'DNS_FAILURE',
+  ENONAME: 'DNS_FAILURE',
+  ENODATA: 'NO_RECORDS',
+  ETIMEOUT: 'TIMEOUT',
+  ETIMEDOUT: 'TIMEOUT',
+  ABORT_ERR: 'TIMEOUT',
+  ECONNREFUSED: 'CONNECTION_REFUSED',
+  ECONNRESET: 'CONNECTION_RESET',
+  EPIPE: 'CONNECTION_RESET',
+  EHOSTUNREACH: 'HOST_UNREACHABLE',
+  ENETUNREACH: 'HOST_UNREACHABLE',
+  EACCES: 'PERMISSION_DENIED',
+  EPERM: 'PERMISSION_DENIED',
+  EADDRNOTAVAIL: 'INVALID_CONFIG',
+  EPROTO: 'TLS_ERROR',
+  CERT_HAS_EXPIRED: 'CERTIFICATE_EXPIRED',
+  CERT_NOT_YET_VALID: 'CERTIFICATE_INVALID',
+  DEPTH_ZERO_SELF_SIGNED_CERT: 'CERTIFICATE_INVALID',
+  SELF_SIGNED_CERT_IN_CHAIN: 'CERTIFICATE_INVALID',
+  UNABLE_TO_VERIFY_LEAF_SIGNATURE: 'CERTIFICATE_INVALID',
+  UNABLE_TO_GET_ISSUER_CERT_LOCALLY: 'CERTIFICATE_INVALID',
+  ERR_TLS_CERT_ALTNAME_INVALID: 'CERTIFICATE_INVALID'
+};
+
+// Fallback for errors that only carry a message, e.g. ping output
+const MESSAGE_PATTERNS: Array<[RegExp, ErrorCode]> = [
+  [/timed out|timeout/i, 'TIMEOUT'],
+  [/permission denied|operation not permitted/i, 'PERMISSION_DENIED'],
+  [/unknown host|name or service not known|cannot resolve|ENOTFOUND|EAI_AGAIN/i, 'DNS_FAILURE'],
+  [/ECONNREFUSED|connection refused/i, 'CONNECTION_REFUSED'],
+  [/ECONNRESET|EPIPE|socket hang up|connection reset/i, 'CONNECTION_RESET'],
+  [/EHOSTUNREACH|ENETUNREACH|unreachable/i, 'HOST_UNREACHABLE'],
+  [/certificate|CERT_/i, 'CERTIFICATE_INVALID'],
+  [/TLS|SSL|handshake/i, 'TLS_ERROR'],
+  [/too many redirects/i, 'TOO_MANY_REDIRECTS']
+];
+
+export const ERROR_CODE_CATEGORIES: Record<ErrorCode, FailureCategory> = {
+  DNS_FAILURE: 'dns',
+  NO_RECORDS: 'dns',
+  CONNECTION_REFUSED: 'connection',
+  CONNECTION_RESET: 'connection',
+  HOST_UNREACHABLE: 'connection',
+  NO_RESPONSE: 'other',
+  TIMEOUT: 'timeout',
+  TLS_ERROR: 'tls',
+  CERTIFICATE_INVALID: 'certificate',
+  CERTIFICATE_EXPIRED: 'certificate',
+  HTTP_STATUS: 'http',
+  TOO_MANY_REDIRECTS: 'http',
+  ASSERTION_FAILED: 'assertion',
+  LATENCY_EXCEEDED: 'other',
+  PERMISSION_DENIED: 'permission',
+  INVALID_CONFIG: 'config',
+  CHECKER_ERROR: 'other',
+  UNKNOWN: 'other'
+};
+
+/**
+ * Classifies an error from a probe. The error's `code` wins when it is
+ * a known one; otherwise the message is matched, and `fallback` is used
+ * when nothing matches.
+ */
+export function errorCodeOf(error: unknown, fallback: ErrorCode = 'UNKNOWN'): ErrorCode {
+  if (error instanceof Error) {
+    const code = (error as NodeJS.ErrnoException).code;
+    if (code && SYSTEM_ERROR_CODES[code]) return SYSTEM_ERROR_CODES[code];
+    if (code?.startsWith('ERR_SSL_') || code?.startsWith('ERR_TLS_')) return 'TLS_ERROR';
+    if (error.name === 'AbortError' || error.name === 'TimeoutError') return 'TIMEOUT';
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  for (const [pattern, code] of MESSAGE_PATTERNS) {
+    if (pattern.test(message)) return code;
+  }
+  return fallback;
+}
+
+export function failureCategory(code: ErrorCode): FailureCategory {
+  return ERROR_CODE_CATEGORIES[code];
+}
@@ -0,0 +1,245 @@
+import http, { IncomingMessage } from 'http';
+import https from 'https';
+import { createGunzip, createInflate, createBrotliDecompress } from 'zlib';
+import { Readable } from 'stream';
+import { HttpServiceConfig, HttpTimings, IpFamily } from '../types';
+import { familyName, familyNumber } from './address';
+
+const DEFAULT_MAX_REDIRECTS = 10;
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+// Assertions only see the first MiB of a body; the rest is counted but not kept
+const MAX_BODY_BYTES = 1024 * 1024;
+
+export interface HttpRequestOptions {
+  signal: AbortSignal;
+  family?: IpFamily;
+  sourceAddress?: string;
+}
+
+export interface HttpResponse {
+  status: number;
+  statusText: string;
+  headers: Headers;
+  remoteAddress?: string;
+  remoteFamily?: IpFamily;
+  // Bytes received on the wire; known once text() has resolved
+  size: number;
+  // True when text() returned only the first MAX_BODY_BYTES of the decoded body
+  truncated: boolean;
+  // Phase breakdown; download and total are final once text() has resolved
+  timings: HttpTimings;
+  text(): Promise<string>;
+  discard(): void;
+}
+
+export interface HttpRequestResult {
+  response: HttpResponse;
+  url: string;
+  redirects: number;
+}
+
+function buildBody(service: HttpServiceConfig): { content?: string; contentType?: string } {
+  if (!service.body) {
+    return {};
+  }
+  if (service.body.type === 'json') {
+    return { content: JSON.stringify(service.body.content), contentType: 'application/json' };
+  }
+  return { content: service.body.content, contentType: service.body.contentType };
+}
+
+function buildHeaders(service: HttpServiceConfig, contentType?: string): Headers {
+  const headers = new Headers({
+    'User-Agent': 'PingPals-Monitor/1.0',
+    'Accept': 'application/json',
+    'Accept-Encoding': 'gzip, deflate, br'
+  });
+
+  if (contentType) {
+    headers.set('Content-Type', contentType);
+  }
+
+  if (service.auth?.type === 'basic') {
+    const credentials = Buffer.from(`${service.auth.username}:${service.auth.password}`).toString('base64');
+    headers.set('Authorization', `Basic ${credentials}`);
+  } else if (service.auth?.type === 'bearer') {
+    headers.set('Authorization', `Bearer ${service.auth.token}`);
+  }
+
+  // Explicit headers win over everything derived above
+  for (const [name, value] of Object.entries(service.headers || {})) {
+    headers.set(name, value);
+  }
+
+  return headers;
+}
+
+function decode(res: IncomingMessage): Readable {
+  switch (res.headers['content-encoding']) {
+    case 'gzip':
+      return res.pipe(createGunzip());
+    case 'deflate':
+      return res.pipe(createInflate());
+    case 'br':
+      return res.pipe(createBrotliDecompress());
+    default:
+      return res;
+  }
+}
+
+function toHeaders(res: IncomingMessage): Headers {
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(res.headers)) {
+    if (Array.isArray(value)) {
+      value.forEach(v => headers.append(name, v));
+    } else if (value !== undefined) {
+      headers.set(name, value);
+    }
+  }
+  return headers;
+}
+
+function round(ms: number): number {
+  return Math.round(ms * 100) / 100;
+}
+
+function request(
+  url: URL,
+  method: string,
+  headers: Headers,
+  body: string | undefined,
+  service: HttpServiceConfig,
+  options: HttpRequestOptions
+): Promise<HttpResponse> {
+  const transport = url.protocol === 'https:' ? https : http;
+
+  return new Promise((resolve, reject) => {
+    const start = performance.now();
+    let lookupAt: number | undefined;
+    let connectAt: number | undefined;
+    let secureAt: number | undefined;
+
+    const req = transport.request(url, {
+      method,
+      headers: Object.fromEntries(headers),
+      signal: options.signal,
+      family: familyNumber(options.family),
+      localAddress: options.sourceAddress,
+      rejectUnauthorized: !service.ignoreTlsErrors,
+      agent: false
+    }, res => {
+      const responseAt = performance.now();
+      const socket = res.socket;
+      const handshakeDone = secureAt ?? connectAt ?? lookupAt ?? start;
+      const timings: HttpTimings = {
+        dns: round((lookupAt ?? start) - start),
+        connect: round(connectAt !== undefined ? connectAt - (lookupAt ?? start) : 0),
+        tls: secureAt !== undefined && connectAt !== undefined ? round(secureAt - connectAt) : null,
+        ttfb: round(responseAt - handshakeDone),
+        download: 0,
+        total: round(responseAt - start)
+      };
+
+      const response: HttpResponse = {
+        status: res.statusCode || 0,
+        statusText: res.statusMessage || '',
+        headers: toHeaders(res),
+        remoteAddress: socket?.remoteAddress,
+        remoteFamily: familyName(socket?.remoteFamily),
+        size: 0,
+        truncated: false,
+        timings,
+        text: () => new Promise((resolveBody, rejectBody) => {
+          const chunks: Buffer[] = [];
+          let size = 0;
+          let kept = 0;
+          res.on('data', (chunk: Buffer) => {
+            size += chunk.length;
+          });
+          const stream = decode(res);
+          stream.on('data', (chunk: Buffer) => {
+            if (kept >= MAX_BODY_BYTES) {
+              response.truncated = true;
+              return;
+            }
+            const room = MAX_BODY_BYTES - kept;
+            if (chunk.length > room) {
+              response.truncated = true;
+              chunk = chunk.subarray(0, room);
+            }
+            chunks.push(chunk);
+            kept += chunk.length;
+          });
+          stream.on('end', () => {
+            const endAt = performance.now();
+            timings.download = round(endAt - responseAt);
+            timings.total = round(endAt - start);
+            response.size = size;
+            resolveBody(Buffer.concat(chunks).toString('utf-8'));
+          });
+          stream.on('error', rejectBody);
+          res.on('error', rejectBody);
+        }),
+        discard: () => {
+          res.resume();
+        }
+      };
+      resolve(response);
+    });
+
+    req.on('socket', socket => {
+      socket.once('lookup', () => {
+        lookupAt = performance.now();
+      });
+      socket.once('connect', () => {
+        connectAt = performance.now();
+      });
+      socket.once('secureConnect', () => {
+        secureAt = performance.now();
+      });
+    });
+    req.on('error', reject);
+    req.end(body);
+  });
+}
+
+export async function sendHttpRequest(service: HttpServiceConfig, options: HttpRequestOptions): Promise<HttpRequestResult> {
+  const follow = service.redirect?.follow ?? true;
+  const maxRedirects = service.redirect?.maxRedirects ?? DEFAULT_MAX_REDIRECTS;
+  const payload = buildBody(service);
+  const headers = buildHeaders(service, payload.contentType);
+
+  let url = new URL(service.url);
+  let method: string = service.method || 'GET';
+  let body = payload.content;
+
+  // Redirects are followed by hand so the hop limit can be enforced
+  for (let redirects = 0; ; redirects++) {
+    const response = await request(url, method, headers, body, service, options);
+
+    const location = response.headers.get('location');
+    if (!follow || !REDIRECT_STATUSES.has(response.status) || !location) {
+      return { response, url: url.toString(), redirects };
+    }
+
+    if (redirects >= maxRedirects) {
+      response.discard();
+      throw new Error(`Too many redirects (max ${maxRedirects})`);
+    }
+
+    response.discard();
+
+    const nextUrl = new URL(location, url);
+    if (nextUrl.origin !== url.origin) {
+      // Never leak credentials to a different origin
+      headers.delete('Authorization');
+    }
+    url = nextUrl;
+
+    if (response.status === 303 || ((response.status === 301 || response.status === 302) && method === 'POST')) {
+      method = 'GET';
+      body = undefined;
+      headers.delete('Content-Type');
+    }
+  }
+}
@@ -0,0 +1,13 @@
+/**
+ * JSON with object keys sorted at every level, so equal values
+ * serialize identically regardless of key order.
+ */
+export function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_key, nested: unknown) => {
+    if (nested && typeof nested === 'object' && !Array.isArray(nested)) {
+      const record = nested as Record<string, unknown>;
+      return Object.fromEntries(Object.keys(record).sort().map(key => [key, record[key]]));
+    }
+    return nested;
+  });
+}
@@ -1,58 +1,149 @@
-import { mkdir, appendFile } from 'fs/promises';
+import { mkdir, appendFile, readdir, rename, stat, unlink } from 'fs/promises';
 import { join } from 'path';
+import { LogFields, LogFormat, LoggingConfig, LogLevel } from '../types';
+
+const LEVEL_PRIORITY: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40
+};
+
+interface ResolvedLoggingConfig {
+  level: LogLevel;
+  format: LogFormat;
+  file: boolean;
+  dir: string;
+  maxFileSize: number;
+  retentionDays: number;
+}
+
+// Shared by every Logger so configuration applies to loggers created before it
+const settings: ResolvedLoggingConfig = {
+  level: 'info',
+  format: 'text',
+  file: true,
+  dir: join(process.cwd(), 'logs'),
+  maxFileSize: 10 * 1024 * 1024,
+  retentionDays: 14
+};
+
+let lastCleanupDate: string | null = null;
+
+export function configureLogging(config: LoggingConfig = {}) {
+  if (config.level) settings.level = config.level;
+  if (config.format) settings.format = config.format;
+  if (config.file !== undefined) settings.file = config.file;
+  if (config.dir) settings.dir = config.dir;
+  if (config.maxFileSize) settings.maxFileSize = config.maxFileSize;
+  if (config.retentionDays !== undefined) settings.retentionDays = config.retentionDays;
+}
+
+export function isLogLevel(value: string): value is LogLevel {
+  return value in LEVEL_PRIORITY;
+}
+
+function formatText(timestamp: string, level: LogLevel, component: string, instanceId: string, message: string, fields?: LogFields): string {
+  const extra = Object.entries(fields || {})
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key}=${typeof value === 'string' ? value : JSON.stringify(value)}`)
+    .join(' ');
+  return `[${timestamp}] [${level.toUpperCase()}] [${component}:${instanceId}] ${message}${extra ? ` ${extra}` : ''}`;
+}
+
+/**
+ * Deletes log files older than the retention window. Runs at most once per day
+ * across all loggers, triggered by the first write of the day.
+ */
+async function cleanupOldLogs(today: string) {
+  if (lastCleanupDate === today || settings.retentionDays <= 0) return;
+  lastCleanupDate = today;
+
+  const cutoff = Date.now() - settings.retentionDays * 24 * 60 * 60 * 1000;
+  try {
+    for (const name of await readdir(settings.dir)) {
+      if (!name.endsWith('.log')) continue;
+      const path = join(settings.dir, name);
+      const info = await stat(path);
+      if (info.mtimeMs < cutoff) {
+        await unlink(path);
+      }
+    }
+  } catch (error) {
+    console.error('Failed to clean up old log files:', error);
+  }
+}
 
 export class Logger {
-  private logDir: string;
   private component: string;
   private instanceId: string;
-  private logFile: string;
+  private currentDate: string | null = null;
+  private currentSize = 0;
+  // File writes are chained so rotation sees an accurate size
+  private writes: Promise<void> = Promise.resolve();
 
   constructor(component: string, instanceId: string) {
     this.component = component;
     this.instanceId = instanceId;
-    this.logDir = join(process.cwd(), 'logs');
-    
-    // Create log filename with date
-    const now = new Date();
-    const dateStr = now.toISOString().split('T')[0];
-    this.logFile = join(this.logDir, `${dateStr}-${component}-${instanceId}.log`);
-    
-    // Ensure log directory exists
-    this.init();
-  }
-
-  private async init() {
-    try {
-      await mkdir(this.logDir, { recursive: true });
-    } catch (error) {
-      console.error('Failed to create logs directory:', error);
-    }
   }
 
-  async log(message: string, level: 'info' | 'warn' | 'error' = 'info') {
+  async log(message: string, level: LogLevel = 'info', fields?: LogFields) {
+    if (LEVEL_PRIORITY[level] < LEVEL_PRIORITY[settings.level]) return;
+
     const timestamp = new Date().toISOString();
-    const logEntry = `[${timestamp}] [${level.toUpperCase()}] [${this.component}:${this.instanceId}] ${message}\n`;
-    
+    const line = settings.format === 'json'
+      ? JSON.stringify({ timestamp, level, component: this.component, instanceId: this.instanceId, message, ...fields })
+      : formatText(timestamp, level, this.component, this.instanceId, message, fields);
+
     // Write to console
-    console.log(logEntry.trim());
-    
-    try {
-      // Write to file
-      await appendFile(this.logFile, logEntry);
-    } catch (error) {
-      console.error('Failed to write to log file:', error);
-    }
+    console.log(line);
+
+    if (!settings.file) return;
+    this.writes = this.writes.then(() => this.writeToFile(`${line}\n`, timestamp.split('T')[0]));
+    return this.writes;
+  }
+
+  async debug(message: string, fields?: LogFields) {
+    return this.log(message, 'debug', fields);
+  }
+
+  async info(message: string, fields?: LogFields) {
+    return this.log(message, 'info', fields);
   }
 
-  async info(message: string) {
-    return this.log(message, 'info');
+  async warn(message: string, fields?: LogFields) {
+    return this.log(message, 'warn', fields);
   }
 
-  async warn(message: string) {
-    return this.log(message, 'warn');
+  async error(message: string, fields?: LogFields) {
+    return this.log(message, 'error', fields);
   }
 
-  async error(message: string) {
-    return this.log(message, 'error');
+  private filePath(date: string): string {
+    return join(settings.dir, `${date}-${this.component}-${this.instanceId}.log`);
+  }
+
+  private async writeToFile(entry: string, date: string) {
+    try {
+      const path = this.filePath(date);
+
+      if (this.currentDate !== date) {
+        await mkdir(settings.dir, { recursive: true });
+        this.currentDate = date;
+        this.currentSize = await stat(path).then(info => info.size, () => 0);
+        await cleanupOldLogs(date);
+      }
+
+      // Size rotation: move the full file aside with a time suffix and start over
+      if (this.currentSize > 0 && this.currentSize + entry.length > settings.maxFileSize) {
+        await rename(path, path.replace(/\.log$/, `.${Date.now()}.log`));
+        this.currentSize = 0;
+      }
+
+      await appendFile(path, entry);
+      this.currentSize += Buffer.byteLength(entry);
+    } catch (error) {
+      console.error('Failed to write to log file:', error);
+    }
   }
 }
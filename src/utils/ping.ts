@@ -1,35 +1,82 @@
 import * as pingModule from 'ping';
+import { ErrorCode, IcmpMethod } from '../types';
+import { errorCodeOf } from './errors';
 
 interface PingOptions {
   timeout?: number;
   retries?: number;
+  count?: number;
+  interval?: number;
+  v6?: boolean;
+  sourceAddress?: string;
 }
 
-interface PingResult {
+export interface PingResult {
   alive: boolean;
   time?: number;
+  min?: number;
+  avg?: number;
+  max?: number;
+  stddev?: number;
+  packetLoss?: number;
   error?: string;
+  code?: ErrorCode;
+}
+
+// The ping module reports statistics as strings, or 'unknown' when unavailable
+function parseStat(value: string | number | undefined): number | undefined {
+  const parsed = typeof value === 'number' ? value : parseFloat(value ?? '');
+  return Number.isFinite(parsed) ? parsed : undefined;
 }
 
 export async function ping(host: string, options: PingOptions = {}): Promise<PingResult> {
   const timeout = options.timeout || 5000;
+  const count = Math.max(1, options.count || 1);
+  const interval = options.interval || 1000;
 
   try {
     const result = await pingModule.promise.probe(host, {
       timeout: timeout / 1000, // Convert to seconds
-      min_reply: 1,
+      min_reply: count,
+      v6: options.v6,
+      sourceAddr: options.sourceAddress,
+      // Bound the whole run: every packet gets its interval plus a reply timeout
+      deadline: count > 1 ? Math.ceil(((count - 1) * interval + timeout) / 1000) : undefined,
+      extra: count > 1 ? ['-i', String(interval / 1000)] : undefined
     });
 
     return {
       alive: result.alive,
-      time: result.time,
-      error: result.alive ? undefined : result.output
+      time: parseStat(result.time),
+      min: parseStat(result.min),
+      avg: parseStat(result.avg),
+      max: parseStat(result.max),
+      stddev: parseStat(result.stddev),
+      packetLoss: parseStat(result.packetLoss) ?? (result.alive ? undefined : 100),
+      error: result.alive ? undefined : result.output,
+      code: result.alive ? undefined : errorCodeOf(result.output, 'NO_RESPONSE')
     };
   } catch (error) {
     return {
       alive: false,
       time: timeout,
-      error: error instanceof Error ? error.message : String(error)
+      packetLoss: 100,
+      error: error instanceof Error ? error.message : String(error),
+      code: errorCodeOf(error)
     };
   }
 }
+
+/**
+ * Startup self-test: pings loopback through the system ping binary, the
+ * only way ICMP checks are sent since the runtime cannot open ICMP
+ * sockets itself. Resolves to a null method with the error when the
+ * binary is missing or not permitted to send ICMP.
+ */
+export async function detectIcmpMethod(): Promise<{ method: IcmpMethod | null; error?: string }> {
+  const probe = await ping('127.0.0.1', { timeout: 2000 });
+  if (!probe.alive) {
+    return { method: null, error: `ping binary unusable: ${probe.error?.trim() || 'loopback ping failed'}` };
+  }
+  return { method: 'binary' };
+}
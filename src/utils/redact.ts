@@ -0,0 +1,51 @@
+import { ServiceConfig } from '../types';
+
+export const REDACTED = '[REDACTED]';
+
+// Header and query parameter names that usually carry credentials
+const SENSITIVE_NAME = /auth|token|key|secret|passw|pwd|session|cookie|signature|credential|^sig$/i;
+
+/**
+ * Replaces the password and secret-looking query parameters of a URL.
+ * Anything that is not a parseable URL is returned as is.
+ */
+export function redactUrl(value: string): string {
+  try {
+    const url = new URL(value);
+    const pairs = url.search.slice(1).split('&');
+    const sensitive = pairs.some(pair => SENSITIVE_NAME.test(pair.split('=')[0]));
+    if (!url.password && !sensitive) {
+      return value;
+    }
+
+    if (sensitive) {
+      url.search = `?${pairs.map(pair => {
+        const name = pair.split('=')[0];
+        return SENSITIVE_NAME.test(name) ? `${name}=${REDACTED}` : pair;
+      }).join('&')}`;
+    }
+    return url.password ? url.toString().replace(`:${url.password}@`, `:${REDACTED}@`) : url.toString();
+  } catch {
+    return value;
+  }
+}
+
+export function redactServiceConfig<T extends ServiceConfig>(service: T): T {
+  if (service.type !== 'http') {
+    return service;
+  }
+
+  return {
+    ...service,
+    url: redactUrl(service.url),
+    headers: service.headers && Object.fromEntries(
+      Object.entries(service.headers).map(([name, value]) => [
+        name,
+        SENSITIVE_NAME.test(name) ? REDACTED : value
+      ])
+    ),
+    auth: service.auth && (service.auth.type === 'basic'
+      ? { ...service.auth, password: REDACTED }
+      : { ...service.auth, token: REDACTED })
+  };
+}
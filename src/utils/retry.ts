@@ -0,0 +1,73 @@
+import { FailureCategory, RetryPolicy, RetryBackoff } from '../types';
+
+export const RETRY_BACKOFFS: RetryBackoff[] = ['fixed', 'linear', 'exponential'];
+
+export const FAILURE_CATEGORIES: FailureCategory[] = [
+  'timeout', 'connection', 'dns', 'tls', 'certificate', 'http', 'assertion', 'permission', 'config', 'other'
+];
+
+export interface ResolvedRetryPolicy {
+  attempts: number;
+  delayMs: number;
+  backoff: RetryBackoff;
+  maxDelayMs: number;
+  jitter: number;
+  retryOn: FailureCategory[];
+}
+
+// Transient network problems are retried; answers that will not change on a retry are not
+export const DEFAULT_RETRY_POLICY: ResolvedRetryPolicy = {
+  attempts: 3,
+  delayMs: 1000,
+  backoff: 'fixed',
+  maxDelayMs: 30000,
+  jitter: 0,
+  retryOn: ['timeout', 'connection', 'dns', 'tls', 'other']
+};
+
+/**
+ * Merges policies left to right, later ones overriding earlier ones
+ * (e.g. defaults, then the slave's policy, then the service's).
+ */
+export function resolveRetryPolicy(...policies: Array<RetryPolicy | undefined>): ResolvedRetryPolicy {
+  const resolved = { ...DEFAULT_RETRY_POLICY };
+  for (const policy of policies) {
+    if (!policy) continue;
+    for (const [key, value] of Object.entries(policy)) {
+      // Unset and unparsable (NaN) fields fall through to the previous layer
+      if (value !== undefined && !Number.isNaN(value)) {
+        (resolved as Record<string, unknown>)[key] = value;
+      }
+    }
+  }
+  resolved.attempts = Math.max(1, Math.floor(resolved.attempts));
+  resolved.jitter = Math.min(1, Math.max(0, resolved.jitter));
+  return resolved;
+}
+
+/**
+ * Delay before the retry that follows failed attempt number `attempt` (1-based).
+ */
+export function retryDelay(policy: ResolvedRetryPolicy, attempt: number, random: () => number = Math.random): number {
+  const base = policy.backoff === 'exponential'
+    ? policy.delayMs * Math.pow(2, attempt - 1)
+    : policy.backoff === 'linear'
+    ? policy.delayMs * attempt
+    : policy.delayMs;
+
+  // Spread retries by up to ±jitter of the delay
+  const jittered = base * (1 + (random() * 2 - 1) * policy.jitter);
+  return Math.round(Math.max(0, Math.min(policy.maxDelayMs, jittered)));
+}
+
+export function isRetryBackoff(value: string): value is RetryBackoff {
+  return (RETRY_BACKOFFS as string[]).includes(value);
+}
+
+export function isFailureCategory(value: string): value is FailureCategory {
+  return (FAILURE_CATEGORIES as string[]).includes(value);
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
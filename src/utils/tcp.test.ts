@@ -0,0 +1,74 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { createServer } from 'net';
+import { tcpProbe } from './tcp';
+import { closedPort, closeServers, listen } from '../test/loopback';
+
+afterEach(closeServers);
+
+describe('tcpProbe', () => {
+  test('reports an accepted connection as alive', async () => {
+    const port = await listen(createServer(socket => socket.end()));
+
+    const result = await tcpProbe('127.0.0.1', port, { timeout: 2000 });
+
+    expect(result.alive).toBe(true);
+    expect(result.remoteAddress).toBe('127.0.0.1');
+    expect(result.remoteFamily).toBe('ipv4');
+    expect(result.connectTime).toBeGreaterThanOrEqual(0);
+  });
+
+  test('reports a refused connection', async () => {
+    const port = await closedPort();
+
+    const result = await tcpProbe('127.0.0.1', port, { timeout: 2000 });
+
+    expect(result.alive).toBe(false);
+    expect(result.code).toBe('CONNECTION_REFUSED');
+  });
+
+  test('matches the banner against expect', async () => {
+    const port = await listen(createServer(socket => socket.write('SSH-2.0-OpenSSH_9.6\r\n')));
+
+    const result = await tcpProbe('127.0.0.1', port, { timeout: 2000, expect: '^SSH-2\\.0' });
+
+    expect(result.alive).toBe(true);
+    expect(result.response).toContain('OpenSSH');
+  });
+
+  test('sends the payload before matching the reply', async () => {
+    const port = await listen(createServer(socket => socket.on('data', data => {
+      socket.end(data.toString() === 'PING\r\n' ? '+PONG\r\n' : '-ERR\r\n');
+    })));
+
+    const result = await tcpProbe('127.0.0.1', port, { timeout: 2000, payload: 'PING\r\n', expect: 'PONG' });
+
+    expect(result.alive).toBe(true);
+  });
+
+  test('fails when the connection closes without a match', async () => {
+    const port = await listen(createServer(socket => socket.end('220 ftp ready\r\n')));
+
+    const result = await tcpProbe('127.0.0.1', port, { timeout: 2000, expect: '^SSH-' });
+
+    expect(result.alive).toBe(false);
+    expect(result.code).toBe('ASSERTION_FAILED');
+    expect(result.response).toBe('220 ftp ready\r\n');
+  });
+
+  test('times out waiting for a banner that never comes', async () => {
+    const port = await listen(createServer(() => {}));
+
+    const result = await tcpProbe('127.0.0.1', port, { timeout: 200, expect: '^SSH-' });
+
+    expect(result.alive).toBe(false);
+    expect(result.code).toBe('TIMEOUT');
+    expect(result.error).toBe('Timed out waiting for expected response');
+  });
+
+  test('rejects an invalid expect pattern', async () => {
+    const result = await tcpProbe('127.0.0.1', 1, { expect: '(' });
+
+    expect(result.alive).toBe(false);
+    expect(result.code).toBe('INVALID_CONFIG');
+  });
+});
@@ -0,0 +1,105 @@
+import { Socket } from 'net';
+import { ErrorCode, IpFamily } from '../types';
+import { familyName, familyNumber } from './address';
+import { errorCodeOf } from './errors';
+
+interface TcpProbeOptions {
+  timeout?: number;
+  payload?: string;
+  expect?: string;
+  family?: IpFamily;
+  sourceAddress?: string;
+}
+
+interface TcpProbeResult {
+  alive: boolean;
+  connectTime?: number;
+  remoteAddress?: string;
+  remoteFamily?: IpFamily;
+  response?: string;
+  error?: string;
+  code?: ErrorCode;
+}
+
+// Cap how much of a banner/response we keep around for matching
+const MAX_RESPONSE_BYTES = 64 * 1024;
+
+export function tcpProbe(host: string, port: number, options: TcpProbeOptions = {}): Promise<TcpProbeResult> {
+  const timeout = options.timeout || 5000;
+  let expected: RegExp | undefined;
+  try {
+    expected = options.expect !== undefined ? new RegExp(options.expect) : undefined;
+  } catch {
+    return Promise.resolve({ alive: false, error: `Invalid expect pattern: ${options.expect}`, code: 'INVALID_CONFIG' });
+  }
+
+  return new Promise(resolve => {
+    const socket = new Socket();
+    const startTime = Date.now();
+    let connectTime: number | undefined;
+    let remoteAddress: string | undefined;
+    let remoteFamily: IpFamily | undefined;
+    let response = '';
+    let settled = false;
+
+    const finish = (result: TcpProbeResult) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      socket.destroy();
+      resolve({ connectTime, remoteAddress, remoteFamily, ...result });
+    };
+
+    const timer = setTimeout(() => {
+      finish({
+        alive: false,
+        response: response || undefined,
+        error: connectTime === undefined
+          ? 'Connection timed out'
+          : 'Timed out waiting for expected response',
+        code: 'TIMEOUT'
+      });
+    }, timeout);
+
+    socket.on('connect', () => {
+      connectTime = Date.now() - startTime;
+      remoteAddress = socket.remoteAddress;
+      remoteFamily = familyName(socket.remoteFamily);
+      if (options.payload) {
+        socket.write(options.payload);
+      }
+      if (!expected) {
+        finish({ alive: true });
+      }
+    });
+
+    socket.on('data', (chunk: Buffer) => {
+      if (response.length < MAX_RESPONSE_BYTES) {
+        response += chunk.toString('utf-8');
+      }
+      if (expected?.test(response)) {
+        finish({ alive: true, response });
+      }
+    });
+
+    socket.on('end', () => {
+      finish({
+        alive: false,
+        response: response || undefined,
+        error: `Response did not match /${options.expect}/`,
+        code: 'ASSERTION_FAILED'
+      });
+    });
+
+    socket.on('error', (error: Error) => {
+      finish({ alive: false, error: error.message, code: errorCodeOf(error) });
+    });
+
+    socket.connect({
+      host,
+      port,
+      family: familyNumber(options.family),
+      localAddress: options.sourceAddress
+    });
+  });
+}
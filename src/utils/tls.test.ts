@@ -0,0 +1,163 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createServer as createTcpServer } from 'net';
+import { createServer } from 'tls';
+import { tlsProbe } from './tls';
+import { configureLogging } from './logger';
+import { DEFAULT_RETRY_POLICY } from './retry';
+import { UptimeMonitor } from '../monitor';
+import { TlsServiceConfig } from '../types';
+import { closedPort, closeServers, listen } from '../test/loopback';
+
+interface Certificate {
+  key: string;
+  cert: string;
+}
+
+let workDir: string;
+
+// Self-signed certificate for localhost that expires in `days` days
+function selfSigned(days: number): Certificate {
+  const keyPath = join(workDir, `${days}.key`);
+  const certPath = join(workDir, `${days}.crt`);
+  const openssl = Bun.spawnSync([
+    'openssl', 'req', '-x509', '-newkey', 'ec', '-pkeyopt', 'ec_paramgen_curve:prime256v1', '-nodes',
+    '-keyout', keyPath, '-out', certPath, '-days', String(days),
+    '-subj', '/CN=localhost', '-addext', 'subjectAltName=DNS:localhost'
+  ]);
+  if (openssl.exitCode !== 0) {
+    throw new Error(`openssl failed: ${openssl.stderr.toString()}`);
+  }
+  return { key: readFileSync(keyPath, 'utf-8'), cert: readFileSync(certPath, 'utf-8') };
+}
+
+function serveTls(certificate: Certificate): Promise<number> {
+  return listen(createServer(certificate, socket => socket.end()));
+}
+
+let longLived: number;
+let expiringSoon: number;
+let nearlyExpired: number;
+
+beforeAll(async () => {
+  configureLogging({ file: false, level: 'error' });
+  workDir = mkdtempSync(join(tmpdir(), 'tls-test-'));
+  longLived = await serveTls(selfSigned(90));
+  expiringSoon = await serveTls(selfSigned(20));
+  nearlyExpired = await serveTls(selfSigned(3));
+});
+
+afterAll(() => {
+  closeServers();
+  rmSync(workDir, { recursive: true, force: true });
+});
+
+describe('tlsProbe', () => {
+  test('reports a self-signed certificate as untrusted', async () => {
+    const result = await tlsProbe('127.0.0.1', longLived, { servername: 'localhost', timeout: 2000 });
+
+    expect(result.connected).toBe(true);
+    expect(result.certificate?.trusted).toBe(false);
+    expect(result.certificate?.authorizationError).toBe('DEPTH_ZERO_SELF_SIGNED_CERT');
+    expect(result.certificate?.hostnameMatch).toBe(true);
+    expect(result.certificate?.subjectAltNames).toEqual(['localhost']);
+  });
+
+  test('reports a hostname mismatch apart from chain trust', async () => {
+    const result = await tlsProbe('127.0.0.1', longLived, { servername: 'other.example.test', timeout: 2000 });
+
+    expect(result.connected).toBe(true);
+    expect(result.certificate?.hostnameMatch).toBe(false);
+    expect(result.certificate?.authorizationError).toBe('DEPTH_ZERO_SELF_SIGNED_CERT');
+  });
+
+  test('counts the days until the certificate expires', async () => {
+    const result = await tlsProbe('127.0.0.1', expiringSoon, { servername: 'localhost', timeout: 2000 });
+
+    expect(result.certificate?.daysRemaining).toBeGreaterThanOrEqual(19);
+    expect(result.certificate?.daysRemaining).toBeLessThanOrEqual(20);
+  });
+
+  test('reports a refused connection', async () => {
+    const port = await closedPort();
+
+    const result = await tlsProbe('127.0.0.1', port, { timeout: 2000 });
+
+    expect(result.connected).toBe(false);
+    expect(result.code).toBe('CONNECTION_REFUSED');
+  });
+
+  test('times out when the server never completes the handshake', async () => {
+    const port = await listen(createTcpServer(() => {}));
+
+    const result = await tlsProbe('127.0.0.1', port, { timeout: 200 });
+
+    expect(result.connected).toBe(false);
+    expect(result.code).toBe('TIMEOUT');
+  });
+});
+
+describe('TLS expiry thresholds', () => {
+  const monitor = new UptimeMonitor({
+    maxConcurrent: 1,
+    timeout: 2000,
+    retry: { ...DEFAULT_RETRY_POLICY, attempts: 1 }
+  });
+
+  function service(port: number, overrides: Partial<TlsServiceConfig> = {}): TlsServiceConfig {
+    return {
+      id: `tls-${port}`,
+      name: 'tls',
+      type: 'tls',
+      interval: 60000,
+      timeout: 2000,
+      host: '127.0.0.1',
+      port,
+      servername: 'localhost',
+      allowUntrusted: true,
+      ...overrides
+    };
+  }
+
+  test('is up when expiry is beyond the warning threshold', async () => {
+    const result = await monitor.checkService(service(longLived));
+
+    expect(result.status).toBe('up');
+  });
+
+  test('is degraded inside the warning threshold', async () => {
+    const result = await monitor.checkService(service(expiringSoon));
+
+    expect(result.status).toBe('degraded');
+    expect(result.certificate?.expiringSoon).toBe(true);
+  });
+
+  test('is down inside the critical threshold', async () => {
+    const result = await monitor.checkService(service(nearlyExpired));
+
+    expect(result.status).toBe('down');
+    expect(result.errorCode).toBe('CERTIFICATE_EXPIRED');
+  });
+
+  test('honours per-service thresholds', async () => {
+    const result = await monitor.checkService(service(expiringSoon, { expiryWarningDays: 10, expiryCriticalDays: 5 }));
+
+    expect(result.status).toBe('up');
+  });
+
+  test('is down for an untrusted certificate unless allowed', async () => {
+    const result = await monitor.checkService(service(longLived, { allowUntrusted: false }));
+
+    expect(result.status).toBe('down');
+    expect(result.errorCode).toBe('CERTIFICATE_INVALID');
+  });
+
+  test('is down on a hostname mismatch', async () => {
+    const result = await monitor.checkService(service(longLived, { servername: 'other.example.test' }));
+
+    expect(result.status).toBe('down');
+    expect(result.error).toBe('Certificate does not match hostname other.example.test');
+  });
+});
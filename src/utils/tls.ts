@@ -0,0 +1,129 @@
+import { connect, checkServerIdentity, PeerCertificate } from 'tls';
+import { isIP, connect as netConnect } from 'net';
+import { CertificateInfo, ErrorCode, IpFamily } from '../types';
+import { familyName, familyNumber } from './address';
+import { errorCodeOf } from './errors';
+
+interface TlsProbeOptions {
+  timeout?: number;
+  servername?: string;
+  family?: IpFamily;
+  sourceAddress?: string;
+}
+
+interface TlsProbeResult {
+  connected: boolean;
+  handshakeTime?: number;
+  remoteAddress?: string;
+  remoteFamily?: IpFamily;
+  certificate?: CertificateInfo;
+  error?: string;
+  code?: ErrorCode;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function formatName(name: PeerCertificate['subject'] | undefined): string {
+  if (!name) return '';
+  return Object.entries(name)
+    .map(([key, value]) => `${key}=${Array.isArray(value) ? value.join('+') : value}`)
+    .join(', ');
+}
+
+function parseSubjectAltNames(value: string | undefined): string[] {
+  if (!value) return [];
+  return value.split(',').map(entry => entry.trim().replace(/^(DNS|IP Address):/, ''));
+}
+
+export function tlsProbe(host: string, port: number, options: TlsProbeOptions = {}): Promise<TlsProbeResult> {
+  const timeout = options.timeout || 5000;
+  const servername = options.servername || host;
+
+  return new Promise(resolve => {
+    const startTime = Date.now();
+    let settled = false;
+
+    // The TCP leg is opened separately so the family and source address can be pinned
+    const tcpSocket = netConnect({
+      host,
+      port,
+      family: familyNumber(options.family),
+      localAddress: options.sourceAddress
+    });
+
+    // Chain and hostname problems are evaluated below rather than failing the handshake
+    const socket = connect({
+      socket: tcpSocket,
+      // SNI must not carry an IP address
+      servername: isIP(servername) ? undefined : servername,
+      rejectUnauthorized: false
+    });
+
+    const finish = (result: TlsProbeResult) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      socket.destroy();
+      tcpSocket.destroy();
+      resolve(result);
+    };
+
+    const timer = setTimeout(() => {
+      finish({ connected: false, error: 'TLS handshake timed out', code: 'TIMEOUT' });
+    }, timeout);
+
+    socket.once('secureConnect', () => {
+      const handshakeTime = Date.now() - startTime;
+      const remoteAddress = socket.remoteAddress;
+      const remoteFamily = familyName(socket.remoteFamily);
+      const cert = socket.getPeerCertificate();
+
+      if (!cert || Object.keys(cert).length === 0) {
+        finish({
+          connected: true,
+          handshakeTime,
+          remoteAddress,
+          remoteFamily,
+          error: 'Server did not present a certificate',
+          code: 'CERTIFICATE_INVALID'
+        });
+        return;
+      }
+
+      const validTo = new Date(cert.valid_to).getTime();
+      const authorizationError = socket.authorizationError
+        ? String(socket.authorizationError)
+        : null;
+      // Hostname mismatches are reported separately from chain trust
+      const chainError = authorizationError === 'ERR_TLS_CERT_ALTNAME_INVALID'
+        ? null
+        : authorizationError;
+
+      finish({
+        connected: true,
+        handshakeTime,
+        remoteAddress,
+        remoteFamily,
+        certificate: {
+          subject: formatName(cert.subject),
+          issuer: formatName(cert.issuer),
+          subjectAltNames: parseSubjectAltNames(cert.subjectaltname),
+          validFrom: new Date(cert.valid_from).getTime(),
+          validTo,
+          daysRemaining: Math.floor((validTo - Date.now()) / DAY_MS),
+          fingerprint256: cert.fingerprint256,
+          trusted: chainError === null,
+          authorizationError: chainError,
+          hostnameMatch: checkServerIdentity(servername, cert) === undefined
+        }
+      });
+    });
+
+    socket.on('error', (error: Error) => {
+      finish({ connected: false, error: error.message, code: errorCodeOf(error, 'TLS_ERROR') });
+    });
+    tcpSocket.on('error', (error: Error) => {
+      finish({ connected: false, error: error.message, code: errorCodeOf(error) });
+    });
+  });
+}